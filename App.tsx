@@ -4,20 +4,56 @@
 */
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import ReactCrop, { type Crop, type PercentCrop } from 'react-image-crop';
 import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateChatImage } from './services/geminiService';
+import { isAbortError, ImageGenerationResult } from './services/imageProviders';
+import { compositeEdit, createRegionPreview, DEFAULT_BLEND_FEATHER } from './services/compositing';
 import Header from './components/Header';
 import Spinner from './components/Spinner';
 import FilterPanel from './components/FilterPanel';
 import AdjustmentPanel from './components/AdjustmentPanel';
+import LocalAdjustmentPanel from './components/LocalAdjustmentPanel';
+import LivePreview from './components/LivePreview';
+import BlendPanel from './components/BlendPanel';
+import BlendPreview from './components/BlendPreview';
+import CompareView, { CompareMode } from './components/CompareView';
+import CompareControls from './components/CompareControls';
+import ZoomPanView from './components/ZoomPanView';
 import CropPanel from './components/CropPanel';
+import PresetLibrary from './components/PresetLibrary';
 import { UndoIcon, RedoIcon, EyeIcon } from './components/icons';
 import StartScreen from './components/StartScreen';
 import ChatMode from './components/ChatMode';
+import ErrorPanel from './components/ErrorPanel';
+import SettingsDialog from './components/SettingsDialog';
+import ExportDialog from './components/ExportDialog';
+import EditorCanvas from './components/EditorCanvas';
+import ToolOptions from './components/ToolOptions';
+import HistoryPanel from './components/HistoryPanel';
+import HistoryEntryDetails from './components/HistoryEntryDetails';
+import MacroPanel, { MacroRun } from './components/MacroPanel';
+import BatchPanel from './components/BatchPanel';
+import { getSettings, subscribeSettings } from './services/settings';
+import { getApiKeys, subscribeApiKeys } from './services/apiKeyStore';
+import { loadServerConfig, ServerConfig } from './services/serverConfig';
+import { exportProject, importProject, PROJECT_EXTENSION } from './services/projectFile';
+import { prepareUpload } from './services/metadata';
+import { defaultAdjustments, isNeutralAdjustment, applyAdjustments, renderAdjustments } from './services/localAdjustments';
+import { Lut3D, builtInLuts, applyLut, renderLut } from './services/lut';
+import { renderBlend } from './services/blend';
+import { renderCrop, transformImage, getStraightenedSize, getStraightenScale, getCenteredCrop } from './services/transform';
+import { toImagePoint } from './services/viewport';
+import { extensionForMimeType } from './services/imageUtils';
+import { RetryOptions } from './services/retry';
+import { Macro, MacroStep, canRecordStep, recordMacroStep, replayMacroStep, describeMacroStep } from './services/macro';
+import { saveMacro } from './services/macroStore';
+import { createSessionId, saveSession, loadSession, listSessions, deleteSession, getStorageUsage, SessionSummary, StorageUsage } from './services/sessionStore';
+import { historyLabels, createHistoryTree, createNodeId, addHistoryNode, jumpToNode, getPathToNode, getUndoTarget, getRedoTarget, emptyHistoryTree, hasGeometryChangeBetween, getAlignedAncestor } from './services/historyTree';
+import { AiStep, EditorError, BrushSettings, EditMask, EditRegion, HistoryEntry, HistoryTree, ChatMessage, ImageMetadata, ImageTransform, LocalAdjustments, Rect, BlendMode } from './types';
 
-// Helper to convert a data URL string to a File object
-const dataURLtoFile = (dataurl: string, filename: string): File => {
+// Helper to convert a data URL string to a File object, named after its MIME type
+const dataURLtoFile = (dataurl: string, baseName: string): File => {
     const arr = dataurl.split(',');
     if (arr.length < 2) throw new Error("Invalid data URL");
     const mimeMatch = arr[0].match(/:(.*?);/);
@@ -30,34 +66,126 @@ const dataURLtoFile = (dataurl: string, filename: string): File => {
     while(n--){
         u8arr[n] = bstr.charCodeAt(n);
     }
-    return new File([u8arr], filename, {type:mime});
+    return new File([u8arr], `${baseName}.${extensionForMimeType(mime)}`, {type:mime});
 }
 
 type Tab = 'retouch' | 'adjust' | 'filters' | 'crop' | 'chat';
+const TABS: Tab[] = ['retouch', 'crop', 'adjust', 'filters', 'chat'];
+type RetouchMode = 'point' | 'mask';
+
+const stepFailureMessages: Record<AiStep['type'], string> = {
+  'retouch': 'Failed to generate the image.',
+  'filter': 'Failed to apply the filter.',
+  'adjust': 'Failed to apply the adjustment.',
+};
+
+const stepFilePrefixes: Record<AiStep['type'], string> = {
+  'retouch': 'edited',
+  'filter': 'filtered',
+  'adjust': 'adjusted',
+};
 
 const App: React.FC = () => {
-  const [history, setHistory] = useState<File[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  const [history, setHistory] = useState<HistoryTree>(emptyHistoryTree);
+  // History node shown by the Compare button; the original when null
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  // Session the current work is saved to; a new one is created on the first change
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage>({});
   const [prompt, setPrompt] = useState<string>('');
   const [initialPrompt, setInitialPrompt] = useState<string>('');
   const [initialMode, setInitialMode] = useState<Tab>('retouch');
+  // Images selected together on the start screen, processed in batch mode
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<EditorError | null>(null);
   const [editHotspot, setEditHotspot] = useState<{ x: number, y: number } | null>(null);
-  const [displayHotspot, setDisplayHotspot] = useState<{ x: number, y: number } | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('retouch');
+  const [retouchMode, setRetouchMode] = useState<RetouchMode>('point');
+  const [brush, setBrush] = useState<BrushSettings>({ tool: 'brush', size: 40, feather: 8 });
+  const [editMask, setEditMask] = useState<EditMask | null>(null);
+  // Bumped to remount the mask canvas, which clears its strokes
+  const [maskKey, setMaskKey] = useState<number>(0);
+  const [imageSize, setImageSize] = useState<{ width: number, height: number } | null>(null);
+  const [blendFeather, setBlendFeather] = useState<number>(DEFAULT_BLEND_FEATHER);
+  const [showBlendPreview, setShowBlendPreview] = useState<boolean>(false);
+  const [regionCrop, setRegionCrop] = useState<boolean>(false);
+  const [blendPreviewUrl, setBlendPreviewUrl] = useState<string | null>(null);
   
   const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
+  // Crops are kept in percent so they do not depend on the displayed size
+  const [completedCrop, setCompletedCrop] = useState<PercentCrop>();
+  const [straighten, setStraighten] = useState<number>(0);
+  const [localAdjustments, setLocalAdjustments] = useState<LocalAdjustments>(defaultAdjustments);
+  const [customLuts, setCustomLuts] = useState<Lut3D[]>([]);
+  const [selectedLutId, setSelectedLutId] = useState<string | null>(null);
+  const [lutStrength, setLutStrength] = useState<number>(100);
+  // A filter or adjustment result waiting to be blended with its source and committed
+  const [pendingResult, setPendingResult] = useState<{ entry: HistoryEntry, parentId: string, source: File } | null>(null);
+  const [resultOpacity, setResultOpacity] = useState<number>(100);
+  const [resultBlendMode, setResultBlendMode] = useState<BlendMode>('normal');
   const [aspect, setAspect] = useState<number | undefined>();
   const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [compareMode, setCompareMode] = useState<CompareMode>('hold');
   const imgRef = useRef<HTMLImageElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+  const [isMockMode, setIsMockMode] = useState<boolean>(getSettings().providerMode === 'mock');
+
+  const [hasApiKeys, setHasApiKeys] = useState<boolean>(Object.keys(getApiKeys()).length > 0);
+  const [serverConfig, setServerConfig] = useState<ServerConfig | null>(null);
+
+  useEffect(() => subscribeSettings(settings => setIsMockMode(settings.providerMode === 'mock')), []);
+  useEffect(() => subscribeApiKeys(keys => setHasApiKeys(Object.keys(keys).length > 0)), []);
+  useEffect(() => {
+    loadServerConfig().then(setServerConfig);
+  }, []);
+
+  const hasServerKeys = !!serverConfig && Object.values(serverConfig.providers).some(Boolean);
 
-  const currentImage = history[historyIndex] ?? null;
-  const originalImage = history[0] ?? null;
+  const currentNode = history.currentId ? history.nodes[history.currentId] : null;
+  const currentImage = currentNode?.image ?? null;
+  const compareNode = (compareId && history.nodes[compareId]) || (history.rootId ? history.nodes[history.rootId] : null);
+  const compareImage = compareNode?.image ?? null;
+  const hasComparison = !!compareNode && compareNode.id !== history.currentId;
+
+  // Steps that can be compared with the current image: its ancestors, plus a step picked from another branch
+  const compareSteps = useMemo(() => {
+    if (!history.currentId) return [];
+    const path = getPathToNode(history, history.currentId);
+    const steps = path.slice(0, -1).map((node, index) => ({
+      id: node.id,
+      label: index === 0 ? 'Original' : `Step ${index}: ${historyLabels[node.type]}`,
+    }));
+    if (compareNode && !path.some(node => node.id === compareNode.id)) {
+      steps.push({ id: compareNode.id, label: `${historyLabels[compareNode.type]} (other branch)` });
+    }
+    return steps;
+  }, [history, compareNode]);
+  const compareLabel = compareSteps.find(step => step.id === compareNode?.id)?.label ?? 'Original';
+  // Split and difference views overlay pixels, which only works when no crop or rotation lies between the two
+  const isCompareAligned = !!compareNode && !!history.currentId && !hasGeometryChangeBetween(history, compareNode.id, history.currentId);
+  const alignedCompareId = history.currentId ? getAlignedAncestor(history, history.currentId) : null;
+
+  // Steps on the current branch that a macro can be recorded from
+  const macroHistorySteps = useMemo(() => {
+    if (!history.currentId) return [];
+    return getPathToNode(history, history.currentId).slice(1).map((node, index) => {
+      const detail = node.prompt ?? node.lut?.name;
+      return {
+        id: node.id,
+        label: `Step ${index + 1}: ${historyLabels[node.type]}${detail ? ` – ${detail}` : ''}`,
+        recordable: canRecordStep(node),
+      };
+    });
+  }, [history]);
+  const [macroRun, setMacroRun] = useState<MacroRun | null>(null);
 
   const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
-  const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
+  const [compareImageUrl, setCompareImageUrl] = useState<string | null>(null);
 
   // Effect to create and revoke object URLs safely for the current image
   useEffect(() => {
@@ -70,30 +198,58 @@ const App: React.FC = () => {
     }
   }, [currentImage]);
   
-  // Effect to create and revoke object URLs safely for the original image
+  // Effect to create and revoke object URLs safely for the comparison image
   useEffect(() => {
-    if (originalImage) {
-      const url = URL.createObjectURL(originalImage);
-      setOriginalImageUrl(url);
+    if (compareImage) {
+      const url = URL.createObjectURL(compareImage);
+      setCompareImageUrl(url);
       return () => URL.revokeObjectURL(url);
     } else {
-      setOriginalImageUrl(null);
+      setCompareImageUrl(null);
     }
-  }, [originalImage]);
+  }, [compareImage]);
 
 
-  const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+  const undoTarget = getUndoTarget(history);
+  const redoTarget = getRedoTarget(history);
+  const canUndo = undoTarget !== null;
+  const canRedo = redoTarget !== null;
 
-  const addImageToHistory = useCallback((newImageFile: File) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newImageFile);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  // Adds a step after the current one (or after `parentId`); after an undo this starts a new branch
+  // Returns the new node's id
+  const addImageToHistory = useCallback((entry: HistoryEntry, parentId?: string): string => {
+    const id = createNodeId();
+    setHistory(tree => addHistoryNode(tree, entry, parentId, id));
     // Reset transient states after an action
     setCrop(undefined);
     setCompletedCrop(undefined);
-  }, [history, historyIndex]);
+    setStraighten(0);
+    return id;
+  }, []);
+
+  // Starts a new cancellable generation, aborting any previous one
+  const beginGeneration = useCallback((): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const endGeneration = useCallback((signal: AbortSignal) => {
+    if (abortControllerRef.current?.signal === signal) {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  }, []);
+
+  const handleCancelGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+  }, []);
+
+  // Abort any in-flight generation when the editor unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const handlePromptSelect = useCallback((selectedPrompt: string, mode: 'retouch' | 'filter' | 'adjust') => {
     setInitialPrompt(selectedPrompt);
@@ -106,12 +262,18 @@ const App: React.FC = () => {
     setInitialMode(tabMapping[mode]);
   }, []);
 
-  const handleImageUpload = useCallback((file: File) => {
+  const handleImageUpload = useCallback(async (file: File) => {
     setError(null);
-    setHistory([file]);
-    setHistoryIndex(0);
+    let upload: { image: File, metadata?: ImageMetadata } = { image: file };
+    try {
+      upload = await prepareUpload(file);
+    } catch (err) {
+      // Keep the file as uploaded; it may still display rotated in some browsers
+      console.warn('Could not read the image metadata', err);
+    }
+    setHistory(createHistoryTree({ ...upload, type: 'original', timestamp: Date.now() }));
+    setCompareId(null);
     setEditHotspot(null);
-    setDisplayHotspot(null);
     
     // Apply initial settings from StartScreen if available
     if (initialPrompt) {
@@ -125,246 +287,603 @@ const App: React.FC = () => {
     
     setCrop(undefined);
     setCompletedCrop(undefined);
+    setStraighten(0);
   }, [initialPrompt, initialMode]);
 
-  const handleGenerate = useCallback(async () => {
-    if (!currentImage) {
-      setError('No image loaded to edit.');
-      return;
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setStorageUsage(await getStorageUsage());
+    } catch (err) {
+      console.warn('Could not list saved sessions:', err);
     }
-    
-    if (!prompt.trim()) {
-        setError('Please enter a description for your edit.');
+  }, []);
+
+  useEffect(() => {
+    if (!currentImage) refreshSessions();
+  }, [currentImage, refreshSessions]);
+
+  // Save the session shortly after each change
+  useEffect(() => {
+    if (!history.rootId && chatMessages.length === 0) return;
+    const id = sessionId ?? createSessionId();
+    if (!sessionId) setSessionId(id);
+    const timer = setTimeout(() => {
+      saveSession(id, history, chatMessages).catch(err => console.warn('Could not save session:', err));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [history, chatMessages, sessionId]);
+
+  const handleResumeSession = useCallback(async (id: string) => {
+    try {
+      const session = await loadSession(id);
+      if (!session) {
+        refreshSessions();
         return;
+      }
+      setHistory(session.history);
+      setChatMessages(session.chatMessages);
+      setSessionId(session.id);
+      setCompareId(null);
+      setError(null);
+      setEditHotspot(null);
+      setActiveTab(session.history.rootId ? 'retouch' : 'chat');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError({ message: `Failed to restore the session. ${errorMessage}`, cause: err });
     }
+  }, [refreshSessions]);
 
-    if (!editHotspot) {
-        setError('Please click on the image to select an area to edit.');
-        return;
+  const handleDeleteSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.warn('Could not delete session:', err);
     }
+    refreshSessions();
+  }, [refreshSessions]);
 
-    setIsLoading(true);
-    setError(null);
-    
+  const handleDeleteAllSessions = useCallback(async () => {
+    if (!window.confirm('Delete all saved sessions? This cannot be undone.')) return;
     try {
-        const editedImageUrl = await generateEditedImage(currentImage, prompt, editHotspot);
-        const newImageFile = dataURLtoFile(editedImageUrl, `edited-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
-        setEditHotspot(null);
-        setDisplayHotspot(null);
+      await Promise.all(sessions.map(session => deleteSession(session.id)));
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to generate the image. ${errorMessage}`);
-        console.error(err);
-    } finally {
-        setIsLoading(false);
+      console.warn('Could not delete sessions:', err);
     }
-  }, [currentImage, prompt, editHotspot, addImageToHistory]);
-  
-  const handleApplyFilter = useCallback(async (filterPrompt: string) => {
-    if (!currentImage) {
-      setError('No image loaded to apply a filter to.');
+    refreshSessions();
+  }, [sessions, refreshSessions]);
+
+  const handleClearMask = useCallback(() => {
+    setEditMask(null);
+    setMaskKey(key => key + 1);
+  }, []);
+
+  // A mask only makes sense for the image it was painted on
+  useEffect(() => {
+    handleClearMask();
+  }, [currentImage, handleClearMask]);
+
+  // The area the next retouch edit applies to, or null until the user picks one
+  const editRegion = useMemo((): EditRegion | null => {
+    if (retouchMode === 'mask') {
+      if (!editMask) return null;
+      const { x, y, width, height } = editMask.bounds;
+      return { hotspot: { x: Math.round(x + width / 2), y: Math.round(y + height / 2) }, mask: editMask };
+    }
+    return editHotspot ? { hotspot: editHotspot } : null;
+  }, [retouchMode, editMask, editHotspot]);
+
+  useEffect(() => {
+    if (!showBlendPreview || !editRegion || !imageSize) {
+      setBlendPreviewUrl(null);
       return;
     }
-    
+    let cancelled = false;
+    createRegionPreview(imageSize.width, imageSize.height, editRegion, blendFeather)
+      .then(url => { if (!cancelled) setBlendPreviewUrl(url); })
+      .catch(err => console.error('Could not render blend preview:', err));
+    return () => { cancelled = true; };
+  }, [showBlendPreview, editRegion, imageSize, blendFeather]);
+
+  // Generates the result of an AI step on `source`, without adding it to the history
+  const generateStepEntry = useCallback(async (step: AiStep, source: File, signal: AbortSignal, retry?: Partial<RetryOptions>): Promise<HistoryEntry> => {
+    const startedAt = Date.now();
+    let result: ImageGenerationResult;
+    switch (step.type) {
+        case 'retouch': {
+            const region = step.region!;
+            const edited = await generateEditedImage(source, step.prompt, region, signal, { regionCrop, feather: blendFeather, retry });
+            // Keep everything outside the edit region pixel-identical to the previous image
+            result = { ...edited, imageUrl: await compositeEdit(source, edited.imageUrl, region, blendFeather) };
+            break;
+        }
+        case 'filter':
+            result = await generateFilteredImage(source, step.prompt, signal, retry);
+            break;
+        case 'adjust':
+            result = await generateAdjustedImage(source, step.prompt, signal, retry);
+            break;
+    }
+    return {
+        image: dataURLtoFile(result.imageUrl, `${stepFilePrefixes[step.type]}-${Date.now()}`),
+        type: step.type,
+        prompt: step.prompt,
+        hotspot: step.region?.hotspot,
+        mask: step.region?.mask,
+        provider: result.provider,
+        durationMs: Date.now() - startedAt,
+        timestamp: Date.now(),
+    };
+  }, [regionCrop, blendFeather]);
+
+  // Runs an AI step on `source` and records the result as a child of `parentId`
+  const runStep = useCallback(async (step: AiStep, parentId: string, source: File) => {
+    // A new whole-image result would replace the one waiting to be blended; it must be applied or discarded first
+    if (step.type !== 'retouch' && pendingResult) return;
+    const signal = beginGeneration();
     setIsLoading(true);
     setError(null);
     
     try {
-        const filteredImageUrl = await generateFilteredImage(currentImage, filterPrompt);
-        const newImageFile = dataURLtoFile(filteredImageUrl, `filtered-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const entry = await generateStepEntry(step, source, signal);
+        if (step.type === 'retouch') {
+            addImageToHistory(entry, parentId);
+            setEditHotspot(null);
+        } else {
+            // Whole-image results can be blended with their source before they are committed
+            setPendingResult({ entry, parentId, source });
+            setResultOpacity(100);
+            setResultBlendMode('normal');
+        }
     } catch (err) {
+        if (isAbortError(err)) {
+            console.log('Generation cancelled by user');
+            return;
+        }
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply the filter. ${errorMessage}`);
+        setError({ message: `${stepFailureMessages[step.type]} ${errorMessage}`, cause: err, retry: () => runStep(step, parentId, source) });
         console.error(err);
     } finally {
-        setIsLoading(false);
+        endGeneration(signal);
     }
-  }, [currentImage, addImageToHistory]);
-  
-  const handleApplyAdjustment = useCallback(async (adjustmentPrompt: string) => {
-    if (!currentImage) {
-      setError('No image loaded to apply an adjustment to.');
+  }, [pendingResult, generateStepEntry, addImageToHistory, beginGeneration, endGeneration]);
+
+  const handleApplyResult = useCallback(async () => {
+    if (!pendingResult) return;
+    const { entry, parentId, source } = pendingResult;
+    try {
+        if (resultOpacity === 100 && resultBlendMode === 'normal') {
+            addImageToHistory(entry, parentId);
+        } else {
+            const image = await renderBlend(source, entry.image, resultOpacity / 100, resultBlendMode);
+            addImageToHistory({ ...entry, image, blend: { opacity: resultOpacity, mode: resultBlendMode } }, parentId);
+        }
+        setPendingResult(null);
+    } catch (err) {
+        setError({ message: 'Could not blend the result.', cause: err });
+    }
+  }, [pendingResult, resultOpacity, resultBlendMode, addImageToHistory]);
+
+  // A pending result belongs to the image it was generated from
+  useEffect(() => {
+    setPendingResult(null);
+  }, [history.rootId]);
+
+  const handleGenerate = useCallback(() => {
+    if (!currentNode) {
+      setError({ message: 'No image loaded to edit.' });
       return;
     }
     
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-        const adjustedImageUrl = await generateAdjustedImage(currentImage, adjustmentPrompt);
-        const newImageFile = dataURLtoFile(adjustedImageUrl, `adjusted-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
-    } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply the adjustment. ${errorMessage}`);
-        console.error(err);
-    } finally {
-        setIsLoading(false);
+    if (!prompt.trim()) {
+        setError({ message: 'Please enter a description for your edit.' });
+        return;
+    }
+
+    if (!editRegion) {
+        setError({ message: retouchMode === 'mask'
+            ? 'Please paint over the area you want to edit.'
+            : 'Please click on the image to select an area to edit.' });
+        return;
+    }
+
+    runStep({ type: 'retouch', prompt, region: editRegion }, currentNode.id, currentNode.image);
+  }, [currentNode, prompt, retouchMode, editRegion, runStep]);
+  
+  const handleApplyFilter = useCallback((filterPrompt: string) => {
+    if (!currentNode) {
+      setError({ message: 'No image loaded to apply a filter to.' });
+      return;
+    }
+    runStep({ type: 'filter', prompt: filterPrompt }, currentNode.id, currentNode.image);
+  }, [currentNode, runStep]);
+  
+  const handleApplyAdjustment = useCallback((adjustmentPrompt: string) => {
+    if (!currentNode) {
+      setError({ message: 'No image loaded to apply an adjustment to.' });
+      return;
     }
-  }, [currentImage, addImageToHistory]);
+    runStep({ type: 'adjust', prompt: adjustmentPrompt }, currentNode.id, currentNode.image);
+  }, [currentNode, runStep]);
 
-  const handleChatGenerate = useCallback(async (prompt: string, referenceImages: File[]): Promise<string> => {
+  // Runs the current step again from its parent, optionally with a different prompt
+  const handleRerunStep = useCallback((rerunPrompt: string) => {
+    if (!currentNode?.parentId) return;
+    const { type, hotspot, mask, parentId } = currentNode;
+    if (type !== 'retouch' && type !== 'filter' && type !== 'adjust') return;
+    const region = hotspot ? { hotspot, mask } : undefined;
+    runStep({ type, prompt: rerunPrompt, region }, parentId, history.nodes[parentId].image);
+  }, [currentNode, history.nodes, runStep]);
+
+  const handleChatGenerate = useCallback(async (prompt: string, referenceImages: File[], signal?: AbortSignal): Promise<ImageGenerationResult> => {
     setError(null);
     
     try {
-        const resultImageUrl = await generateChatImage(prompt, referenceImages);
-        return resultImageUrl;
+        return await generateChatImage(prompt, referenceImages, signal);
     } catch (err) {
+        if (isAbortError(err)) throw err;
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to generate image. ${errorMessage}`);
+        setError({ message: `Failed to generate image. ${errorMessage}`, cause: err });
         console.error(err);
         throw err;
     }
   }, []);
 
-  const handleApplyCrop = useCallback(() => {
-    if (!completedCrop || !imgRef.current) {
-        setError('Please select an area to crop.');
-        return;
+  // Opens a chat result in the editor as a new step, or as a new image if none is loaded
+  const handleImportChatImage = useCallback((message: ChatMessage) => {
+    if (!message.resultImage) return;
+    addImageToHistory({
+        image: dataURLtoFile(message.resultImage, `chat-${Date.now()}`),
+        type: 'chat-import',
+        prompt: message.prompt,
+        provider: message.provider,
+        durationMs: message.durationMs,
+        timestamp: Date.now(),
+    });
+    setActiveTab('retouch');
+  }, [addImageToHistory]);
+
+  // Size of the current image once straightened; crop rectangles are in these pixels
+  const cropImageSize = useMemo(
+    () => imageSize ? getStraightenedSize(imageSize.width, imageSize.height, straighten) : null,
+    [imageSize, straighten],
+  );
+
+  const cropRect: Rect | null = completedCrop?.width && completedCrop.height && cropImageSize ? {
+    x: Math.round(completedCrop.x / 100 * cropImageSize.width),
+    y: Math.round(completedCrop.y / 100 * cropImageSize.height),
+    width: Math.max(1, Math.round(completedCrop.width / 100 * cropImageSize.width)),
+    height: Math.max(1, Math.round(completedCrop.height / 100 * cropImageSize.height)),
+  } : null;
+
+  const handleCropRectChange = useCallback((rect: Rect) => {
+    if (!cropImageSize) return;
+    const percentCrop: PercentCrop = {
+      unit: '%',
+      x: rect.x / cropImageSize.width * 100,
+      y: rect.y / cropImageSize.height * 100,
+      width: rect.width / cropImageSize.width * 100,
+      height: rect.height / cropImageSize.height * 100,
+    };
+    setCrop(percentCrop);
+    setCompletedCrop(percentCrop);
+  }, [cropImageSize]);
+
+  // Picking a ratio starts from the largest centred area with that ratio
+  const handleSetAspect = useCallback((value: number | undefined) => {
+    setAspect(value);
+    if (value && cropImageSize) {
+      handleCropRectChange(getCenteredCrop(cropImageSize.width, cropImageSize.height, value));
     }
+  }, [cropImageSize, handleCropRectChange]);
 
-    const image = imgRef.current;
-    const canvas = document.createElement('canvas');
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
-    
-    canvas.width = completedCrop.width;
-    canvas.height = completedCrop.height;
-    const ctx = canvas.getContext('2d');
+  // Local pixel operations run on the main thread and cannot be cancelled. They block other edits
+  // while they run, so a second click cannot add the same step twice.
+  const [localOperation, setLocalOperation] = useState<string | null>(null);
+  const localOperationRef = useRef(false);
+  const runLocalOperation = useCallback(async (label: string, operation: () => Promise<void>) => {
+    if (localOperationRef.current) return;
+    localOperationRef.current = true;
+    setLocalOperation(label);
+    setIsLoading(true);
+    try {
+        // Let the overlay paint before the pixel loops take over the thread
+        await new Promise(resolve => requestAnimationFrame(() => setTimeout(resolve)));
+        await operation();
+    } finally {
+        localOperationRef.current = false;
+        setLocalOperation(null);
+        setIsLoading(false);
+    }
+  }, []);
 
-    if (!ctx) {
-        setError('Could not process the crop.');
+  const handleApplyCrop = useCallback(async () => {
+    if (!currentImage || !cropImageSize || (!cropRect && straighten === 0)) {
+        setError({ message: 'Please select an area to crop.' });
         return;
     }
 
-    const pixelRatio = window.devicePixelRatio || 1;
-    canvas.width = completedCrop.width * pixelRatio;
-    canvas.height = completedCrop.height * pixelRatio;
-    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
-    ctx.imageSmoothingQuality = 'high';
-
-    ctx.drawImage(
-      image,
-      completedCrop.x * scaleX,
-      completedCrop.y * scaleY,
-      completedCrop.width * scaleX,
-      completedCrop.height * scaleY,
-      0,
-      0,
-      completedCrop.width,
-      completedCrop.height,
-    );
-    
-    const croppedImageUrl = canvas.toDataURL('image/png');
-    const newImageFile = dataURLtoFile(croppedImageUrl, `cropped-${Date.now()}.png`);
-    addImageToHistory(newImageFile);
+    // Straightening alone keeps the whole straightened image
+    const rect = cropRect ?? { x: 0, y: 0, width: cropImageSize.width, height: cropImageSize.height };
+    await runLocalOperation('Cropping…', async () => {
+        try {
+            const newImageFile = await renderCrop(currentImage, rect, straighten);
+            addImageToHistory({
+                image: newImageFile,
+                type: 'crop',
+                cropRect: rect,
+                straighten: straighten || undefined,
+                timestamp: Date.now(),
+            });
+        } catch (err) {
+            setError({ message: 'Could not process the crop.', cause: err });
+        }
+    });
+  }, [currentImage, cropImageSize, cropRect, straighten, addImageToHistory, runLocalOperation]);
+
+  const handleApplyLocalAdjustments = useCallback(async () => {
+    if (!currentImage || isNeutralAdjustment(localAdjustments)) return;
+    await runLocalOperation('Applying adjustments…', async () => {
+        try {
+            const newImageFile = await renderAdjustments(currentImage, localAdjustments);
+            addImageToHistory({ image: newImageFile, type: 'adjust', adjustments: localAdjustments, timestamp: Date.now() });
+            setLocalAdjustments(defaultAdjustments);
+        } catch (err) {
+            setError({ message: 'Could not apply the adjustments.', cause: err });
+        }
+    });
+  }, [currentImage, localAdjustments, addImageToHistory, runLocalOperation]);
 
-  }, [completedCrop, addImageToHistory]);
+  const luts = useMemo(() => [...builtInLuts, ...customLuts], [customLuts]);
+  const selectedLut = luts.find(lut => lut.id === selectedLutId) ?? null;
+
+  const handleApplyLut = useCallback(async () => {
+    if (!currentImage || !selectedLut) return;
+    await runLocalOperation('Applying color grade…', async () => {
+        try {
+            const newImageFile = await renderLut(currentImage, selectedLut, lutStrength / 100);
+            addImageToHistory({
+                image: newImageFile,
+                type: 'filter',
+                lut: { name: selectedLut.name, strength: lutStrength },
+                timestamp: Date.now(),
+            });
+            setSelectedLutId(null);
+        } catch (err) {
+            setError({ message: 'Could not apply the color grade.', cause: err });
+        }
+    });
+  }, [currentImage, selectedLut, lutStrength, addImageToHistory, runLocalOperation]);
+
+  // Live previews for the local, non-AI operations
+  const adjustmentPreview = useCallback(
+    (image: ImageData) => applyAdjustments(image, localAdjustments),
+    [localAdjustments],
+  );
+  const lutPreview = useCallback(
+    (image: ImageData) => { if (selectedLut) applyLut(image, selectedLut, lutStrength / 100); },
+    [selectedLut, lutStrength],
+  );
+
+  const handleTransform = useCallback(async (transform: ImageTransform) => {
+    if (!currentImage) return;
+    await runLocalOperation('Transforming…', async () => {
+        try {
+            const newImageFile = await transformImage(currentImage, transform);
+            addImageToHistory({ image: newImageFile, type: 'transform', transform, timestamp: Date.now() });
+        } catch (err) {
+            setError({ message: 'Could not transform the image.', cause: err });
+        }
+    });
+  }, [currentImage, addImageToHistory, runLocalOperation]);
+
+  const handleRecordMacro = useCallback(async (name: string, stepIds: string[]) => {
+    try {
+      const steps: MacroStep[] = [];
+      for (const id of stepIds) {
+        const node = history.nodes[id];
+        const step = node.parentId ? await recordMacroStep(node, history.nodes[node.parentId].image) : null;
+        if (step) steps.push(step);
+      }
+      saveMacro(name, steps);
+    } catch (err) {
+      setError({ message: 'Could not record the macro.', cause: err });
+    }
+  }, [history.nodes]);
+
+  // Replays a macro from the current image. Each step is added to the history as it finishes,
+  // so a failure leaves the completed steps in place.
+  const handleRunMacro = useCallback(async (macro: Macro) => {
+    if (!currentNode || pendingResult) return;
+    const signal = beginGeneration();
+    setIsLoading(true);
+    setError(null);
+    setMacroRun({ name: macro.name, steps: macro.steps, current: 0 });
+
+    let parentId = currentNode.id;
+    let source = currentNode.image;
+    try {
+        for (let index = 0; index < macro.steps.length; index++) {
+            setMacroRun(run => run && { ...run, current: index });
+            const entry = await replayMacroStep(macro.steps[index], source, { signal, luts, generate: generateStepEntry });
+            parentId = addImageToHistory(entry, parentId);
+            source = entry.image;
+        }
+        setMacroRun(run => run && { ...run, current: macro.steps.length });
+    } catch (err) {
+        const failure = isAbortError(err) ? 'Cancelled.' : err instanceof Error ? err.message : 'An unknown error occurred.';
+        setMacroRun(run => run && { ...run, failure });
+        if (!isAbortError(err)) console.error(err);
+    } finally {
+        endGeneration(signal);
+    }
+  }, [currentNode, pendingResult, luts, generateStepEntry, addImageToHistory, beginGeneration, endGeneration]);
+
+  const handleJumpToNode = useCallback((id: string) => {
+    setHistory(tree => jumpToNode(tree, id));
+    setCompareId(current => current === id ? null : current);
+    setEditHotspot(null);
+  }, []);
 
   const handleUndo = useCallback(() => {
-    if (canUndo) {
-      setHistoryIndex(historyIndex - 1);
-      setEditHotspot(null);
-      setDisplayHotspot(null);
+    if (undoTarget) {
+      handleJumpToNode(undoTarget);
     }
-  }, [canUndo, historyIndex]);
+  }, [undoTarget, handleJumpToNode]);
   
   const handleRedo = useCallback(() => {
-    if (canRedo) {
-      setHistoryIndex(historyIndex + 1);
-      setEditHotspot(null);
-      setDisplayHotspot(null);
+    if (redoTarget) {
+      handleJumpToNode(redoTarget);
     }
-  }, [canRedo, historyIndex]);
+  }, [redoTarget, handleJumpToNode]);
 
   const handleReset = useCallback(() => {
-    if (history.length > 0) {
-      setHistoryIndex(0);
+    if (history.rootId) {
+      handleJumpToNode(history.rootId);
       setError(null);
-      setEditHotspot(null);
-      setDisplayHotspot(null);
     }
-  }, [history]);
+  }, [history.rootId, handleJumpToNode]);
 
   const handleUploadNew = useCallback(() => {
-      setHistory([]);
-      setHistoryIndex(-1);
+      // The current session stays saved and can be resumed from the start screen
+      setHistory(emptyHistoryTree);
+      setChatMessages([]);
+      setSessionId(null);
+      setCompareId(null);
       setError(null);
       setPrompt('');
       setEditHotspot(null);
-      setDisplayHotspot(null);
   }, []);
 
-  const handleDownload = useCallback(() => {
-      if (currentImage) {
-          const link = document.createElement('a');
-          link.href = URL.createObjectURL(currentImage);
-          link.download = `edited-${currentImage.name}`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(link.href);
-      }
-  }, [currentImage]);
-  
+  const handleOpenProject = useCallback(async (file: File) => {
+    try {
+      const { history: restored, editor } = await importProject(file);
+      // An opened project starts its own saved session
+      setHistory(restored);
+      setChatMessages([]);
+      setSessionId(null);
+      setCompareId(editor.compareId);
+      setAspect(editor.cropAspect);
+      setActiveTab(TABS.includes(editor.activeTab as Tab) ? editor.activeTab as Tab : 'retouch');
+      setError(null);
+      setPrompt('');
+      setEditHotspot(null);
+      setCrop(undefined);
+      setStraighten(0);
+      setCompletedCrop(undefined);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError({ message: `Failed to open the project. ${errorMessage}`, cause: err });
+      console.error(err);
+    }
+  }, []);
+
+  const handleSaveProject = useCallback(async () => {
+    if (!history.rootId) return;
+    try {
+      const archive = await exportProject({
+        history,
+        editor: { activeTab, cropAspect: aspect, compareId },
+      });
+      const baseName = history.nodes[history.rootId].image.name.replace(/\.[^.]+$/, '') || 'project';
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(archive);
+      link.download = `${baseName}${PROJECT_EXTENSION}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(link.href);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError({ message: `Failed to save the project. ${errorMessage}`, cause: err });
+      console.error(err);
+    }
+  }, [history, activeTab, aspect, compareId]);
+
   const handleFileSelect = (files: FileList | null) => {
     if (files && files[0]) {
-      handleImageUpload(files[0]);
+      if (files[0].name.toLowerCase().endsWith(PROJECT_EXTENSION)) {
+        handleOpenProject(files[0]);
+        return;
+      }
+      const images = Array.from(files).filter(file => file.type.startsWith('image/'));
+      if (images.length > 1) {
+        setError(null);
+        setBatchFiles(images);
+      } else {
+        handleImageUpload(images[0] ?? files[0]);
+      }
     }
   };
 
-  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
-    if (activeTab !== 'retouch') return;
-    
-    const img = e.currentTarget;
-    const rect = img.getBoundingClientRect();
-
-    const offsetX = e.clientX - rect.left;
-    const offsetY = e.clientY - rect.top;
-    
-    setDisplayHotspot({ x: offsetX, y: offsetY });
+  const handleCloseBatch = () => {
+    setBatchFiles(null);
+    setInitialPrompt('');
+  };
 
-    const { naturalWidth, naturalHeight, clientWidth, clientHeight } = img;
-    const scaleX = naturalWidth / clientWidth;
-    const scaleY = naturalHeight / clientHeight;
+  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (activeTab !== 'retouch' || retouchMode !== 'point') return;
 
-    const originalX = Math.round(offsetX * scaleX);
-    const originalY = Math.round(offsetY * scaleY);
+    // Works through object-contain letterboxing and the zoom transform alike
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    const { x, y } = toImagePoint(e.currentTarget, naturalWidth, naturalHeight, e.clientX, e.clientY);
+    if (x < 0 || y < 0 || x >= naturalWidth || y >= naturalHeight) return;
 
-    setEditHotspot({ x: originalX, y: originalY });
-};
+    setEditHotspot({ x: Math.floor(x), y: Math.floor(y) });
+  };
 
   const renderContent = () => {
+    // Batch items report their own failures, so an error left over from the editor must not hide the queue
+    if (batchFiles) {
+      return (
+        <BatchPanel
+          files={batchFiles}
+          generate={generateStepEntry}
+          luts={luts}
+          initialOperation={initialMode === 'adjust' ? 'adjust' : 'filter'}
+          initialPrompt={initialMode !== 'retouch' ? initialPrompt : undefined}
+          onClose={handleCloseBatch}
+        />
+      );
+    }
+
     if (error) {
        return (
-           <div className="text-center animate-fade-in bg-red-500/10 border border-red-500/20 p-8 rounded-lg max-w-2xl mx-auto flex flex-col items-center gap-4">
-            <h2 className="text-2xl font-bold text-red-300">An Error Occurred</h2>
-            <p className="text-md text-red-400">{error}</p>
-            <button
-                onClick={() => setError(null)}
-                className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors"
-              >
-                Try Again
-            </button>
-          </div>
+           <ErrorPanel
+               message={error.message}
+               cause={error.cause}
+               onRetry={error.retry}
+               onDismiss={() => setError(null)}
+               onOpenSettings={() => setIsSettingsOpen(true)}
+           />
         );
     }
     
     // Show StartScreen only if no image is loaded AND not in chat mode
     if (!currentImageUrl && activeTab !== 'chat') {
-      return <StartScreen onFileSelect={handleFileSelect} onPromptSelect={handlePromptSelect} />;
+      return (
+        <StartScreen
+          onFileSelect={handleFileSelect}
+          onPromptSelect={handlePromptSelect}
+          sessions={sessions}
+          storageUsage={storageUsage}
+          onResumeSession={handleResumeSession}
+          onDeleteSession={handleDeleteSession}
+          onDeleteAllSessions={handleDeleteAllSessions}
+        />
+      );
     }
 
+    const hasEditRegion = !!editRegion;
+
     const imageDisplay = (
       <div className="relative">
-        {/* Base image is the original, always at the bottom */}
-        {originalImageUrl && (
+        {/* Base image is the comparison step (the original by default), always at the bottom */}
+        {compareImageUrl && (
             <img
-                key={originalImageUrl}
-                src={originalImageUrl}
-                alt="Original"
+                key={compareImageUrl}
+                src={compareImageUrl}
+                alt="Comparison"
                 className="w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none"
             />
         )}
@@ -375,8 +894,53 @@ const App: React.FC = () => {
             src={currentImageUrl}
             alt="Current"
             onClick={handleImageClick}
+            onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
             className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'} ${activeTab === 'retouch' ? 'cursor-crosshair' : ''}`}
         />
+        {activeTab === 'adjust' && currentImageUrl && !isNeutralAdjustment(localAdjustments) && !isComparing && (
+            <LivePreview imageUrl={currentImageUrl} process={adjustmentPreview} />
+        )}
+        {activeTab === 'filters' && currentImageUrl && selectedLut && !isComparing && (
+            <LivePreview imageUrl={currentImageUrl} process={lutPreview} />
+        )}
+        {pendingResult && !isComparing && (
+            <BlendPreview
+                base={pendingResult.source}
+                top={pendingResult.entry.image}
+                opacity={resultOpacity}
+                mode={resultBlendMode}
+            />
+        )}
+        {activeTab === 'retouch' && blendPreviewUrl && !isComparing && (
+            <img
+                src={blendPreviewUrl}
+                alt="Blend area preview"
+                className="absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none z-20"
+            />
+        )}
+        {activeTab === 'retouch' && retouchMode === 'mask' && imageSize && !isComparing && (
+            <EditorCanvas
+                key={maskKey}
+                width={imageSize.width}
+                height={imageSize.height}
+                brush={brush}
+                onMaskChange={setEditMask}
+                disabled={isLoading}
+            />
+        )}
+        {editHotspot && imageSize && !isLoading && activeTab === 'retouch' && retouchMode === 'point' && !isComparing && (
+            // Placed in image pixels and kept the same on-screen size at every zoom level
+            <div
+                className="absolute rounded-full w-6 h-6 bg-blue-500/50 border-2 border-white pointer-events-none z-20"
+                style={{
+                    left: `${editHotspot.x / imageSize.width * 100}%`,
+                    top: `${editHotspot.y / imageSize.height * 100}%`,
+                    transform: 'translate(-50%, -50%) scale(calc(1 / var(--zoom, 1)))',
+                }}
+            >
+                <div className="absolute inset-0 rounded-full w-6 h-6 animate-ping bg-blue-400"></div>
+            </div>
+        )}
       </div>
     );
     
@@ -387,7 +951,12 @@ const App: React.FC = () => {
         key={`crop-${currentImageUrl}`}
         src={currentImageUrl} 
         alt="Crop this image"
+        onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
         className="w-full h-auto object-contain max-h-[60vh] rounded-xl"
+        // Preview the straightened result: rotated, and enlarged just enough to hide the corners
+        style={straighten && imageSize ? {
+          transform: `rotate(${straighten}deg) scale(${getStraightenScale(imageSize.width, imageSize.height, straighten)})`,
+        } : undefined}
       />
     );
 
@@ -398,7 +967,7 @@ const App: React.FC = () => {
         <div className="w-full max-w-6xl mx-auto flex flex-col items-center gap-6 animate-fade-in">
           {/* Tab Navigation */}
           <div className="w-full bg-gray-800/80 border border-gray-700/80 rounded-lg p-2 flex items-center justify-center gap-2 backdrop-blur-sm max-w-4xl">
-              {(['retouch', 'crop', 'adjust', 'filters', 'chat'] as Tab[]).map(tab => (
+              {TABS.map(tab => (
                    <button
                       key={tab}
                       onClick={() => setActiveTab(tab)}
@@ -414,7 +983,13 @@ const App: React.FC = () => {
           </div>
           
           {/* Chat Mode Content */}
-          <ChatMode onGenerateImage={handleChatGenerate} isLoading={isLoading} />
+          <ChatMode
+            onGenerateImage={handleChatGenerate}
+            onImportImage={handleImportChatImage}
+            initialMessages={chatMessages}
+            onMessagesChange={setChatMessages}
+            isLoading={isLoading}
+          />
         </div>
       );
     }
@@ -426,35 +1001,68 @@ const App: React.FC = () => {
               {isLoading && (
                   <div className="absolute inset-0 bg-black/70 z-30 flex flex-col items-center justify-center gap-4 animate-fade-in">
                       <Spinner />
-                      <p className="text-gray-300">AI is working its magic...</p>
+                      <p className="text-gray-300">
+                          {localOperation
+                              ?? (macroRun && !macroRun.failure && macroRun.current < macroRun.steps.length
+                              ? `Step ${macroRun.current + 1} of ${macroRun.steps.length}: ${describeMacroStep(macroRun.steps[macroRun.current])}`
+                              : 'AI is working its magic...')}
+                      </p>
+                      {!localOperation && (
+                          <button
+                              onClick={handleCancelGeneration}
+                              className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-6 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base"
+                          >
+                              Cancel
+                          </button>
+                      )}
                   </div>
               )}
               
-              {activeTab === 'crop' ? (
-                <ReactCrop 
-                  crop={crop} 
-                  onChange={c => setCrop(c)} 
-                  onComplete={c => setCompletedCrop(c)}
-                  aspect={aspect}
-                  className="max-h-[60vh]"
+              {compareMode !== 'hold' && hasComparison && compareImageUrl ? (
+                <CompareView
+                  mode={compareMode}
+                  beforeUrl={compareImageUrl}
+                  afterUrl={currentImageUrl}
+                  beforeLabel={compareLabel}
+                  afterLabel="Current"
+                  aligned={isCompareAligned}
+                  onCompareAligned={alignedCompareId ? () => setCompareId(alignedCompareId === history.rootId ? null : alignedCompareId) : undefined}
+                />
+              ) : (
+                // Retouching and cropping use plain drags, so there panning needs space, the middle button or two fingers
+                <ZoomPanView
+                  imageWidth={imageSize?.width}
+                  imageHeight={imageSize?.height}
+                  dragToPan={activeTab !== 'retouch' && activeTab !== 'crop'}
                 >
-                  {cropImageElement}
-                </ReactCrop>
-              ) : imageDisplay }
-
-              {displayHotspot && !isLoading && activeTab === 'retouch' && (
-                  <div 
-                      className="absolute rounded-full w-6 h-6 bg-blue-500/50 border-2 border-white pointer-events-none -translate-x-1/2 -translate-y-1/2 z-10"
-                      style={{ left: `${displayHotspot.x}px`, top: `${displayHotspot.y}px` }}
-                  >
-                      <div className="absolute inset-0 rounded-full w-6 h-6 animate-ping bg-blue-400"></div>
-                  </div>
+                  {activeTab === 'crop' ? (
+                    <ReactCrop
+                      crop={crop}
+                      onChange={(_, percentCrop) => setCrop(percentCrop)}
+                      onComplete={(_, percentCrop) => setCompletedCrop(percentCrop)}
+                      aspect={aspect}
+                      className="max-h-[60vh]"
+                    >
+                      {cropImageElement}
+                    </ReactCrop>
+                  ) : imageDisplay}
+                </ZoomPanView>
               )}
           </div>
         )}
+
+        {hasComparison && compareNode && (
+          <CompareControls
+            mode={compareMode}
+            onModeChange={setCompareMode}
+            steps={compareSteps}
+            compareId={compareNode.id}
+            onCompareIdChange={(id) => setCompareId(id === history.rootId ? null : id)}
+          />
+        )}
         
         <div className="w-full bg-gray-800/80 border border-gray-700/80 rounded-lg p-2 flex items-center justify-center gap-2 backdrop-blur-sm">
-            {(['retouch', 'crop', 'adjust', 'filters', 'chat'] as Tab[]).map(tab => (
+            {TABS.map(tab => (
                  <button
                     key={tab}
                     onClick={() => setActiveTab(tab)}
@@ -469,35 +1077,176 @@ const App: React.FC = () => {
             ))}
         </div>
         
+        {pendingResult && (
+            <BlendPanel
+                title={historyLabels[pendingResult.entry.type]}
+                opacity={resultOpacity}
+                onOpacityChange={setResultOpacity}
+                mode={resultBlendMode}
+                onModeChange={setResultBlendMode}
+                onApply={handleApplyResult}
+                onDiscard={() => setPendingResult(null)}
+                isLoading={isLoading}
+            />
+        )}
+
         <div className="w-full">
             {activeTab === 'retouch' && (
                 <div className="flex flex-col items-center gap-4">
+                    <div className="flex items-center gap-2 bg-gray-800/50 border border-gray-700 rounded-lg p-1">
+                        {([['point', 'Point'], ['mask', 'Paint Mask']] as [RetouchMode, string][]).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => setRetouchMode(mode)}
+                                disabled={isLoading}
+                                className={`px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+                                    retouchMode === mode
+                                    ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+                                    : 'text-gray-300 hover:text-white hover:bg-white/10'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {retouchMode === 'mask' && (
+                        <ToolOptions
+                            brush={brush}
+                            onBrushChange={setBrush}
+                            onClearMask={handleClearMask}
+                            hasMask={!!editMask}
+                            disabled={isLoading}
+                        />
+                    )}
+                    <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-400">
+                        <label className="flex items-center gap-2">
+                            Blend feather
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={blendFeather}
+                                onChange={(e) => setBlendFeather(Number(e.target.value))}
+                                disabled={isLoading}
+                            />
+                            <span className="w-10 text-gray-300">{blendFeather}px</span>
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={showBlendPreview}
+                                onChange={(e) => setShowBlendPreview(e.target.checked)}
+                            />
+                            Preview blend area
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer" title="Sends only a tile around the edit area. Faster for large photos, and the model sees the area at a higher resolution.">
+                            <input
+                                type="checkbox"
+                                checked={regionCrop}
+                                onChange={(e) => setRegionCrop(e.target.checked)}
+                                disabled={isLoading}
+                            />
+                            Upload edit area only
+                        </label>
+                    </div>
                     <p className="text-md text-gray-400">
-                        {editHotspot ? 'Great! Now describe your localized edit below.' : 'Click an area on the image to make a precise edit.'}
+                        {hasEditRegion
+                            ? 'Great! Now describe your localized edit below.'
+                            : retouchMode === 'mask' ? 'Paint over the area you want to edit.' : 'Click an area on the image to make a precise edit.'}
                     </p>
+                    <PresetLibrary
+                        kind="retouch"
+                        selectedPrompt={prompt}
+                        onSelect={setPrompt}
+                        currentPrompt={prompt}
+                        disabled={isLoading}
+                    />
                     <form onSubmit={(e) => { e.preventDefault(); handleGenerate(); }} className="w-full flex items-center gap-2">
                         <input
                             type="text"
                             value={prompt}
                             onChange={(e) => setPrompt(e.target.value)}
-                            placeholder={editHotspot ? "e.g., 'change my shirt color to blue'" : "First click a point on the image"}
+                            placeholder={hasEditRegion ? "e.g., 'change my shirt color to blue'" : retouchMode === 'mask' ? "First paint a mask on the image" : "First click a point on the image"}
                             className="flex-grow bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-5 text-lg focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60"
-                            disabled={isLoading || !editHotspot}
+                            disabled={isLoading || !hasEditRegion}
                         />
                         <button 
                             type="submit"
                             className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-5 px-8 text-lg rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-                            disabled={isLoading || !prompt.trim() || !editHotspot}
+                            disabled={isLoading || !prompt.trim() || !hasEditRegion}
                         >
                             Generate
                         </button>
                     </form>
                 </div>
             )}
-            {activeTab === 'crop' && <CropPanel onApplyCrop={handleApplyCrop} onSetAspect={setAspect} isLoading={isLoading} isCropping={!!completedCrop?.width && completedCrop.width > 0} />}
-            {activeTab === 'adjust' && <AdjustmentPanel onApplyAdjustment={handleApplyAdjustment} isLoading={isLoading} initialPrompt={activeTab === 'adjust' ? prompt : undefined} />}
-            {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} isLoading={isLoading} initialPrompt={activeTab === 'filters' ? prompt : undefined} />}
+            {activeTab === 'crop' && (
+              <CropPanel
+                onApplyCrop={handleApplyCrop}
+                aspect={aspect}
+                onSetAspect={handleSetAspect}
+                cropRect={cropRect}
+                onCropRectChange={handleCropRectChange}
+                imageSize={cropImageSize}
+                straighten={straighten}
+                onStraightenChange={setStraighten}
+                onTransform={handleTransform}
+                isLoading={isLoading}
+                isCropping={!!cropRect}
+              />
+            )}
+            {activeTab === 'adjust' && (
+              <div className="flex flex-col gap-4">
+                <LocalAdjustmentPanel
+                  adjustments={localAdjustments}
+                  onChange={setLocalAdjustments}
+                  onApply={handleApplyLocalAdjustments}
+                  isLoading={isLoading}
+                />
+                <AdjustmentPanel onApplyAdjustment={handleApplyAdjustment} isLoading={isLoading || !!pendingResult} initialPrompt={activeTab === 'adjust' ? prompt : undefined} />
+              </div>
+            )}
+            {activeTab === 'filters' && (
+              <FilterPanel
+                onApplyFilter={handleApplyFilter}
+                isLoading={isLoading || !!pendingResult}
+                initialPrompt={activeTab === 'filters' ? prompt : undefined}
+                imageUrl={currentImageUrl}
+                luts={luts}
+                selectedLutId={selectedLutId}
+                onSelectLut={setSelectedLutId}
+                lutStrength={lutStrength}
+                onLutStrengthChange={setLutStrength}
+                onImportLut={(lut) => setCustomLuts(current => [...current, lut])}
+                onApplyLut={handleApplyLut}
+              />
+            )}
         </div>
+
+        {currentNode && (
+            <HistoryEntryDetails
+                entry={currentNode}
+                onRerun={currentNode.parentId && currentNode.type in stepFailureMessages ? handleRerunStep : undefined}
+                disabled={isLoading || !!pendingResult}
+            />
+        )}
+
+        <HistoryPanel
+            tree={history}
+            compareId={compareId}
+            onJump={handleJumpToNode}
+            onCompare={setCompareId}
+            disabled={isLoading}
+        />
+
+        <MacroPanel
+            historySteps={macroHistorySteps}
+            onRecord={handleRecordMacro}
+            onRun={handleRunMacro}
+            run={macroRun}
+            onDismissRun={() => setMacroRun(null)}
+            disabled={isLoading || !!pendingResult}
+        />
         
         <div className="flex flex-wrap items-center justify-center gap-3 mt-6">
             <button 
@@ -521,7 +1270,7 @@ const App: React.FC = () => {
             
             <div className="h-6 w-px bg-gray-600 mx-1 hidden sm:block"></div>
 
-            {canUndo && (
+            {hasComparison && compareMode === 'hold' && (
               <button 
                   onMouseDown={() => setIsComparing(true)}
                   onMouseUp={() => setIsComparing(false)}
@@ -529,7 +1278,7 @@ const App: React.FC = () => {
                   onTouchStart={() => setIsComparing(true)}
                   onTouchEnd={() => setIsComparing(false)}
                   className="flex items-center justify-center text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base"
-                  aria-label="Press and hold to see original image"
+                  aria-label={compareId ? 'Press and hold to see the selected history step' : 'Press and hold to see original image'}
               >
                   <EyeIcon className="w-5 h-5 mr-2" />
                   Compare
@@ -549,9 +1298,16 @@ const App: React.FC = () => {
             >
                 Upload New
             </button>
+            <button 
+                onClick={handleSaveProject}
+                className="text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base"
+                title="Save the image, every history step and its settings as a .pixshop project file"
+            >
+                Save Project
+            </button>
 
             <button 
-                onClick={handleDownload}
+                onClick={() => setIsExportOpen(true)}
                 className="flex-grow sm:flex-grow-0 ml-auto bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base"
             >
                 Download Image
@@ -563,10 +1319,25 @@ const App: React.FC = () => {
   
   return (
     <div className="min-h-screen text-gray-100 flex flex-col">
-      <Header />
-      <main className={`flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center ${currentImage ? 'items-start' : 'items-center'}`}>
+      <Header onOpenSettings={() => setIsSettingsOpen(true)} isMockMode={isMockMode} />
+      {!isMockMode && !hasApiKeys && serverConfig && !hasServerKeys && (
+        <div className="w-full bg-amber-500/10 border-b border-amber-500/30 text-amber-200 text-sm py-2 px-4 flex items-center justify-center gap-3">
+          <span>No API key configured. AI edits need a Replicate or OpenRouter key.</span>
+          <button onClick={() => setIsSettingsOpen(true)} className="font-semibold underline hover:text-amber-100">
+            Open Settings
+          </button>
+        </div>
+      )}
+      <main className={`flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center ${currentImage || batchFiles ? 'items-start' : 'items-center'}`}>
         {renderContent()}
       </main>
+      <SettingsDialog isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        image={currentImage}
+        metadata={(history.rootId && history.nodes[history.rootId].metadata) || null}
+      />
     </div>
   );
 };
@@ -4,6 +4,7 @@
 */
 
 import React, { useState } from 'react';
+import PresetLibrary from './PresetLibrary';
 
 interface AdjustmentPanelProps {
   onApplyAdjustment: (prompt: string) => void;
@@ -15,13 +16,6 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState(initialPrompt || '');
 
-  const presets = [
-    { name: 'Blur Background', prompt: 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.' },
-    { name: 'Enhance Details', prompt: 'Slightly enhance the sharpness and details of the image without making it look unnatural.' },
-    { name: 'Warmer Lighting', prompt: 'Adjust the color temperature to give the image warmer, golden-hour style lighting.' },
-    { name: 'Studio Light', prompt: 'Add dramatic, professional studio lighting to the main subject.' },
-  ];
-
   const activePrompt = selectedPresetPrompt || customPrompt;
 
   const handlePresetClick = (prompt: string) => {
@@ -44,18 +38,13 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Professional Adjustment</h3>
       
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-        {presets.map(preset => (
-          <button
-            key={preset.name}
-            onClick={() => handlePresetClick(preset.prompt)}
-            disabled={isLoading}
-            className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
-          >
-            {preset.name}
-          </button>
-        ))}
-      </div>
+      <PresetLibrary
+        kind="adjust"
+        selectedPrompt={selectedPresetPrompt}
+        onSelect={handlePresetClick}
+        currentPrompt={customPrompt}
+        disabled={isLoading}
+      />
 
       <input
         type="text"
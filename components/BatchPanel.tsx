@@ -0,0 +1,330 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { BatchItem, BatchProcessor, batchRetryOptions, createBatchQueue } from '../services/batchQueue';
+import { GenerateStep, describeMacroStep, replayMacroStep } from '../services/macro';
+import { getMacros, subscribeMacros } from '../services/macroStore';
+import { prepareUpload } from '../services/metadata';
+import { createZip } from '../services/zip';
+import { Lut3D } from '../services/lut';
+import PresetLibrary from './PresetLibrary';
+
+type BatchOperation = 'filter' | 'adjust' | 'macro';
+
+interface BatchPanelProps {
+  files: File[];
+  generate: GenerateStep;
+  // Colour grades a macro may refer to
+  luts: Lut3D[];
+  initialOperation?: 'filter' | 'adjust';
+  initialPrompt?: string;
+  onClose: () => void;
+}
+
+const smallButton = 'text-sm font-semibold text-gray-200 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const operationLabels: Record<BatchOperation, string> = {
+  filter: 'Filter',
+  adjust: 'Adjustment',
+  macro: 'Macro',
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
+
+// Upright copy of an upload, as the editor would open it
+const prepareFile = async (file: File): Promise<File> => {
+  try {
+    return (await prepareUpload(file)).image;
+  } catch (err) {
+    console.warn(`Could not read the metadata of ${file.name}`, err);
+    return file;
+  }
+};
+
+// "beach.jpg" edited with "Warm film" becomes "beach-warm-film.png"; repeated names get a number
+const getResultNames = (items: BatchItem[], suffix: string): string[] => {
+  const used = new Set<string>();
+  return items.map(item => {
+    const base = `${item.file.name.replace(/\.[^.]+$/, '') || 'image'}-${suffix}`;
+    const extension = item.result?.name.match(/\.[^.]+$/)?.[0] ?? '.png';
+    let name = `${base}${extension}`;
+    for (let index = 2; used.has(name); index++) name = `${base}-${index}${extension}`;
+    used.add(name);
+    return name;
+  });
+};
+
+const toSlug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'edited';
+
+const statusStyles: Record<BatchItem['status'], string> = {
+  queued: 'text-gray-400',
+  running: 'text-blue-400 animate-pulse',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const BatchItemRow: React.FC<{ item: BatchItem, waiting: boolean, onRetry: () => void, onCancel: () => void, onDownload: () => void }> = ({ item, waiting, onRetry, onCancel, onDownload }) => {
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(item.result ?? item.file);
+    setThumbnailUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [item.file, item.result]);
+
+  const statusText = {
+    queued: waiting ? 'Waiting for the rate limit' : 'Queued',
+    running: item.progress ?? 'Processing…',
+    done: 'Done',
+    failed: item.error ?? 'Failed',
+    cancelled: 'Cancelled',
+  }[item.status];
+
+  return (
+    <div className="flex items-center gap-3 bg-black/20 rounded-md p-2">
+      <div className="w-12 h-12 flex-shrink-0 rounded overflow-hidden bg-gray-700">
+        {thumbnailUrl && <img src={thumbnailUrl} alt={item.file.name} className="w-full h-full object-cover" />}
+      </div>
+      <div className="flex-grow min-w-0 text-left">
+        <p className="text-sm font-semibold text-gray-200 truncate">{item.file.name}</p>
+        <p className={`text-xs truncate ${statusStyles[item.status]}`} title={statusText}>{statusText}</p>
+      </div>
+      {item.status === 'done' && <button onClick={onDownload} className={smallButton}>Download</button>}
+      {(item.status === 'failed' || item.status === 'cancelled') && <button onClick={onRetry} className={smallButton}>Retry</button>}
+      {(item.status === 'queued' || item.status === 'running') && <button onClick={onCancel} className={`${smallButton} hover:text-red-400`}>Cancel</button>}
+    </div>
+  );
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ files, generate, luts, initialOperation = 'filter', initialPrompt, onClose }) => {
+  const [operation, setOperation] = useState<BatchOperation>(initialOperation);
+  const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
+  const [customPrompt, setCustomPrompt] = useState(initialPrompt || '');
+  const [macros, setMacros] = useState(getMacros);
+  const [macroId, setMacroId] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(2);
+  const [queue] = useState(() => createBatchQueue(2));
+  const [state, setState] = useState(queue.getState);
+  // Name suffix for the results, fixed when the batch starts
+  const [resultSuffix, setResultSuffix] = useState<string | null>(null);
+  const [isZipping, setIsZipping] = useState(false);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => subscribeMacros(setMacros), []);
+  useEffect(() => {
+    const unsubscribe = queue.subscribe(setState);
+    return () => {
+      unsubscribe();
+      queue.cancelAll();
+    };
+  }, [queue]);
+
+  // Ticks the rate limit countdown
+  useEffect(() => {
+    if (state.cooldownUntil === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state.cooldownUntil]);
+
+  const activePrompt = selectedPresetPrompt || customPrompt;
+  const selectedMacro = macros.find(macro => macro.id === macroId) ?? null;
+  const isStarted = resultSuffix !== null;
+  const canStart = operation === 'macro' ? !!selectedMacro : !!activePrompt.trim();
+
+  const handlePresetClick = (prompt: string) => {
+    setSelectedPresetPrompt(prompt);
+    setCustomPrompt('');
+  };
+
+  const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCustomPrompt(e.target.value);
+    setSelectedPresetPrompt(null);
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    queue.setConcurrency(value);
+  };
+
+  const handleStart = () => {
+    // The queue, not each item, backs off when the provider rate limits
+    const batchGenerate: GenerateStep = (step, source, signal) => generate(step, source, signal, batchRetryOptions);
+    let process: BatchProcessor;
+    if (operation === 'macro') {
+      const { steps } = selectedMacro!;
+      process = async (file, signal, onProgress) => {
+        let image = await prepareFile(file);
+        for (let index = 0; index < steps.length; index++) {
+          onProgress(`Step ${index + 1} of ${steps.length}: ${describeMacroStep(steps[index])}`);
+          image = (await replayMacroStep(steps[index], image, { signal, luts, generate: batchGenerate })).image;
+        }
+        return image;
+      };
+      setResultSuffix(toSlug(selectedMacro!.name));
+    } else {
+      const step = { type: operation, prompt: activePrompt.trim() };
+      process = async (file, signal) => (await batchGenerate(step, await prepareFile(file), signal)).image;
+      setResultSuffix(operation === 'filter' ? 'filtered' : 'adjusted');
+    }
+    queue.add(files, process);
+  };
+
+  const doneItems = state.items.filter(item => item.status === 'done');
+  const failedItems = state.items.filter(item => item.status === 'failed' || item.status === 'cancelled');
+  const isActive = state.items.some(item => item.status === 'queued' || item.status === 'running');
+  const resultNames = getResultNames(state.items, resultSuffix ?? 'edited');
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+      const entries = state.items
+        .map((item, index) => ({ name: resultNames[index], data: item.result }))
+        .filter((entry): entry is { name: string, data: File } => !!entry.data);
+      downloadBlob(await createZip(entries), `pixshop-batch-${resultSuffix}.zip`);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isActive && !window.confirm('Stop the batch? Images that are still queued or processing will be cancelled.')) return;
+    onClose();
+  };
+
+  const cooldownSeconds = state.cooldownUntil === null ? 0 : Math.max(0, Math.ceil((state.cooldownUntil - now) / 1000));
+
+  return (
+    <div className="w-full max-w-4xl mx-auto flex flex-col gap-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-100">Batch: {files.length} images</h2>
+        <button onClick={handleClose} className={smallButton}>Back</button>
+      </div>
+
+      {!isStarted && (
+        <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 backdrop-blur-sm">
+          <div className="flex gap-2">
+            {(Object.keys(operationLabels) as BatchOperation[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setOperation(option)}
+                className={`flex-1 font-semibold py-2 px-4 rounded-md transition-colors ${operation === option ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+              >
+                {operationLabels[option]}
+              </button>
+            ))}
+          </div>
+
+          {operation !== 'macro' && (
+            <>
+              <PresetLibrary
+                kind={operation}
+                selectedPrompt={selectedPresetPrompt}
+                onSelect={handlePresetClick}
+                currentPrompt={customPrompt}
+                disabled={false}
+              />
+              <input
+                type="text"
+                value={customPrompt}
+                onChange={handleCustomChange}
+                placeholder={operation === 'filter' ? "Or describe a custom filter (e.g., '80s synthwave glow')" : "Or describe an adjustment (e.g., 'warmer lighting')"}
+                className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full text-base"
+              />
+            </>
+          )}
+
+          {operation === 'macro' && (
+            macros.length === 0 ? (
+              <p className="text-sm text-gray-500">No macros yet. Edit a photo and record its steps from the history to run them here.</p>
+            ) : (
+              <div className="flex flex-col gap-2">
+                {macros.map(macro => (
+                  <label key={macro.id} className={`flex items-start gap-2 rounded-md p-2 cursor-pointer ${macroId === macro.id ? 'bg-blue-500/20 ring-1 ring-blue-500' : 'bg-black/20 hover:bg-black/30'}`}>
+                    <input type="radio" name="batch-macro" checked={macroId === macro.id} onChange={() => setMacroId(macro.id)} className="mt-1" />
+                    <span className="min-w-0 text-left">
+                      <span className="block text-sm font-semibold text-gray-200 truncate">{macro.name}</span>
+                      <span className="block text-xs text-gray-500 truncate">{macro.steps.map(describeMacroStep).join(' → ')}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Parallel
+          <select
+            value={concurrency}
+            onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+            className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-1.5 text-sm"
+          >
+            {[1, 2, 3, 4].map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </label>
+        {!isStarted && (
+          <button
+            onClick={handleStart}
+            disabled={!canStart}
+            className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-2 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed"
+          >
+            Process {files.length} Images
+          </button>
+        )}
+        {isStarted && (
+          <>
+            <span className="text-sm text-gray-300">
+              {doneItems.length} of {state.items.length} done{failedItems.length > 0 ? `, ${failedItems.length} not finished` : ''}
+            </span>
+            <div className="flex-grow" />
+            {failedItems.length > 0 && !isActive && (
+              <button onClick={() => failedItems.forEach(item => queue.retry(item.id))} className={smallButton}>Retry All</button>
+            )}
+            {isActive && <button onClick={queue.cancelAll} className={`${smallButton} hover:text-red-400`}>Cancel All</button>}
+            <button onClick={handleDownloadAll} disabled={doneItems.length === 0 || isZipping} className={smallButton}>
+              {isZipping ? 'Zipping…' : 'Download All (.zip)'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {state.cooldownUntil !== null && (
+        <p className="text-sm text-yellow-300 bg-yellow-500/10 border border-yellow-500/40 rounded-md p-2">
+          The image provider is rate limiting requests. The queue resumes in {cooldownSeconds}s.
+        </p>
+      )}
+
+      {isStarted && (
+        <div className="flex flex-col gap-2">
+          {state.items.map((item, index) => (
+            <BatchItemRow
+              key={item.id}
+              item={item}
+              waiting={state.cooldownUntil !== null}
+              onRetry={() => queue.retry(item.id)}
+              onCancel={() => queue.cancel(item.id)}
+              onDownload={() => downloadBlob(item.result!, resultNames[index])}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
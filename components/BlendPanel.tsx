@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { BlendMode } from '../types';
+
+interface BlendPanelProps {
+  // What produced the result, e.g. "Filter"
+  title: string;
+  opacity: number;
+  onOpacityChange: (opacity: number) => void;
+  mode: BlendMode;
+  onModeChange: (mode: BlendMode) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+  isLoading: boolean;
+}
+
+const modes: { mode: BlendMode, label: string, description: string }[] = [
+  { mode: 'normal', label: 'Normal', description: 'Use the result as is' },
+  { mode: 'luminosity', label: 'Luminosity', description: 'Take only brightness from the result, keeping the original colours' },
+  { mode: 'color', label: 'Color', description: 'Take only colour from the result, keeping the original brightness' },
+];
+
+const BlendPanel: React.FC<BlendPanelProps> = ({ title, opacity, onOpacityChange, mode, onModeChange, onApply, onDiscard, isLoading }) => {
+  return (
+    <div className="w-full bg-gray-800/50 border border-blue-500/50 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">Blend {title} Result</h3>
+      <p className="text-sm text-gray-400 text-center -mt-2">Mix the result with the previous image before adding it to the history. Apply or discard it to start another filter, adjustment or macro.</p>
+
+      <label className="flex items-center gap-3 text-sm text-gray-400">
+        Strength
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={opacity}
+          onChange={(e) => onOpacityChange(Number(e.target.value))}
+          disabled={isLoading}
+          className="flex-grow"
+        />
+        <span className="w-10 text-right text-gray-300">{opacity}%</span>
+      </label>
+
+      <div className="flex items-center justify-center gap-2">
+        <span className="text-sm font-medium text-gray-400">Blend Mode:</span>
+        {modes.map(option => (
+          <button
+            key={option.mode}
+            onClick={() => onModeChange(option.mode)}
+            disabled={isLoading}
+            title={option.description}
+            className={`px-4 py-2 rounded-md text-base font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+              mode === option.mode
+              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+              : 'bg-white/10 hover:bg-white/20 text-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onDiscard}
+          disabled={isLoading}
+          className="flex-1 bg-white/10 border border-white/20 text-gray-200 font-semibold py-4 px-6 rounded-lg transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base disabled:opacity-50"
+        >
+          Discard
+        </button>
+        <button
+          onClick={onApply}
+          disabled={isLoading || opacity === 0}
+          className="flex-1 bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BlendPanel;
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BlendMode } from '../types';
+import { blendPixels, loadBlendLayers } from '../services/blend';
+
+interface BlendPreviewProps {
+  base: File;
+  top: File;
+  // From 0 to 100
+  opacity: number;
+  mode: BlendMode;
+}
+
+const PREVIEW_MAX_SIZE = 1200;
+
+const BlendPreview: React.FC<BlendPreviewProps> = ({ base, top, opacity, mode }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [layers, setLayers] = useState<{ base: ImageData, top: ImageData } | null>(null);
+
+  useEffect(() => {
+    const baseUrl = URL.createObjectURL(base);
+    const topUrl = URL.createObjectURL(top);
+    let cancelled = false;
+    loadBlendLayers(baseUrl, topUrl, PREVIEW_MAX_SIZE)
+      .then(result => { if (!cancelled) setLayers(result); })
+      .catch(err => console.error('Could not render blend preview:', err))
+      .finally(() => {
+        URL.revokeObjectURL(baseUrl);
+        URL.revokeObjectURL(topUrl);
+      });
+    return () => { cancelled = true; };
+  }, [base, top]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !layers) return;
+    const frame = requestAnimationFrame(() => {
+      const image = new ImageData(new Uint8ClampedArray(layers.base.data), layers.base.width, layers.base.height);
+      blendPixels(image, layers.top, opacity / 100, mode);
+      canvas.width = image.width;
+      canvas.height = image.height;
+      canvas.getContext('2d')?.putImageData(image, 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [layers, opacity, mode]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none z-10"
+    />
+  );
+};
+
+export default BlendPreview;
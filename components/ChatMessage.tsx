@@ -8,9 +8,10 @@ import { ChatMessage } from '../types';
 
 interface ChatMessageComponentProps {
   message: ChatMessage;
+  onImport?: () => void;
 }
 
-const ChatMessageComponent: React.FC<ChatMessageComponentProps> = ({ message }) => {
+const ChatMessageComponent: React.FC<ChatMessageComponentProps> = ({ message, onImport }) => {
   const [imageUrls, setImageUrls] = useState<string[]>([]);
   const [resultImageUrl, setResultImageUrl] = useState<string | null>(null);
 
@@ -96,6 +97,14 @@ const ChatMessageComponent: React.FC<ChatMessageComponentProps> = ({ message })
                   }}
                 />
               </div>
+              {onImport && (
+                <button
+                  onClick={onImport}
+                  className="mt-2 text-xs text-gray-200 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded transition-colors"
+                >
+                  在编辑器中编辑
+                </button>
+              )}
             </div>
           )}
         </div>
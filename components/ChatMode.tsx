@@ -8,26 +8,42 @@ import { ChatMessage, ChatState } from '../types';
 import ChatMessageComponent from './ChatMessage';
 import ChatInput from './ChatInput';
 import ReferenceImageUpload from './ReferenceImageUpload';
+import { isAbortError, ImageGenerationResult } from '../services/imageProviders';
 
 interface ChatModeProps {
-  onGenerateImage: (prompt: string, referenceImages: File[]) => Promise<string>;
+  onGenerateImage: (prompt: string, referenceImages: File[], signal?: AbortSignal) => Promise<ImageGenerationResult>;
+  // Opens a generated image in the editor
+  onImportImage?: (message: ChatMessage) => void;
+  // Transcript to start from, e.g. when returning to the tab or resuming a session
+  initialMessages?: ChatMessage[];
+  onMessagesChange?: (messages: ChatMessage[]) => void;
   isLoading: boolean;
 }
 
-const ChatMode: React.FC<ChatModeProps> = ({ onGenerateImage, isLoading }) => {
+const ChatMode: React.FC<ChatModeProps> = ({ onGenerateImage, onImportImage, initialMessages = [], onMessagesChange, isLoading }) => {
   const [chatState, setChatState] = useState<ChatState>({
-    messages: [],
+    messages: initialMessages,
     isGenerating: false,
     referenceImages: []
   });
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Abort any in-flight generation when leaving chat mode
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   // Auto scroll to bottom when new messages are added
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatState.messages]);
 
+  useEffect(() => {
+    if (chatState.messages !== initialMessages) {
+      onMessagesChange?.(chatState.messages);
+    }
+  }, [chatState.messages]);
+
   const handleSendMessage = async (content: string) => {
     if (!content.trim()) return;
 
@@ -47,16 +63,23 @@ const ChatMode: React.FC<ChatModeProps> = ({ onGenerateImage, isLoading }) => {
       isGenerating: true
     }));
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       // Generate AI response
-      const resultImageUrl = await onGenerateImage(content, chatState.referenceImages);
+      const startedAt = Date.now();
+      const result = await onGenerateImage(content, chatState.referenceImages, controller.signal);
       
       // Create AI response message
       const aiMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         type: 'ai',
         content: '已为您生成图像',
-        resultImage: resultImageUrl,
+        resultImage: result.imageUrl,
+        prompt: content,
+        provider: result.provider,
+        durationMs: Date.now() - startedAt,
         timestamp: new Date()
       };
 
@@ -72,7 +95,9 @@ const ChatMode: React.FC<ChatModeProps> = ({ onGenerateImage, isLoading }) => {
       const errorMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         type: 'ai',
-        content: `生成失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        content: isAbortError(error)
+          ? '已取消生成'
+          : `生成失败: ${error instanceof Error ? error.message : '未知错误'}`,
         timestamp: new Date()
       };
 
@@ -81,9 +106,17 @@ const ChatMode: React.FC<ChatModeProps> = ({ onGenerateImage, isLoading }) => {
         messages: [...prev.messages, errorMessage],
         isGenerating: false
       }));
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleReferenceImagesChange = (images: File[]) => {
     setChatState(prev => ({
       ...prev,
@@ -118,6 +151,7 @@ const ChatMode: React.FC<ChatModeProps> = ({ onGenerateImage, isLoading }) => {
               <ChatMessageComponent
                 key={message.id}
                 message={message}
+                onImport={onImportImage && message.resultImage ? () => onImportImage(message) : undefined}
               />
             ))}
             {chatState.isGenerating && (
@@ -126,6 +160,12 @@ const ChatMode: React.FC<ChatModeProps> = ({ onGenerateImage, isLoading }) => {
                   <div className="flex items-center space-x-2">
                     <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-500 border-t-transparent"></div>
                     <span className="text-gray-300 text-sm">AI正在生成图像...</span>
+                    <button
+                      onClick={handleCancelGeneration}
+                      className="ml-2 text-xs text-gray-300 bg-white/10 hover:bg-white/20 px-2 py-1 rounded transition-colors"
+                    >
+                      取消
+                    </button>
                   </div>
                 </div>
               </div>
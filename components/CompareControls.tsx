@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { CompareMode } from './CompareView';
+
+interface CompareControlsProps {
+  mode: CompareMode;
+  onModeChange: (mode: CompareMode) => void;
+  // Steps the current image can be compared with, oldest first
+  steps: { id: string, label: string }[];
+  compareId: string;
+  onCompareIdChange: (id: string) => void;
+}
+
+const modes: { mode: CompareMode, label: string }[] = [
+  { mode: 'hold', label: 'Hold' },
+  { mode: 'split', label: 'Split' },
+  { mode: 'side-by-side', label: 'Side by Side' },
+  { mode: 'difference', label: 'Difference' },
+];
+
+const CompareControls: React.FC<CompareControlsProps> = ({ mode, onModeChange, steps, compareId, onCompareIdChange }) => {
+  return (
+    <div className="w-full flex flex-wrap items-center justify-center gap-2 text-sm">
+      <span className="font-medium text-gray-400">Compare:</span>
+      {modes.map(option => (
+        <button
+          key={option.mode}
+          onClick={() => onModeChange(option.mode)}
+          className={`px-3 py-1.5 rounded-md font-semibold transition-all duration-200 active:scale-95 ${
+            mode === option.mode
+            ? 'bg-gradient-to-br from-cyan-600 to-cyan-500 text-white shadow-md shadow-cyan-500/20'
+            : 'bg-white/10 hover:bg-white/20 text-gray-200'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+      <label className="flex items-center gap-2 text-gray-400 ml-2">
+        with
+        <select
+          value={compareId}
+          onChange={(e) => onCompareIdChange(e.target.value)}
+          className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-1.5 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        >
+          {steps.map(step => (
+            <option key={step.id} value={step.id}>{step.label}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default CompareControls;
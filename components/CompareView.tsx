@@ -0,0 +1,252 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { loadBlendLayers } from '../services/blend';
+import { computeDifference, DifferenceResult } from '../services/difference';
+import { fitView, zoomAt, ViewTransform } from '../services/viewport';
+import { loadImage } from '../services/imageUtils';
+
+export type CompareMode = 'hold' | 'split' | 'side-by-side' | 'difference';
+
+interface CompareViewProps {
+  mode: Exclude<CompareMode, 'hold'>;
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel: string;
+  afterLabel: string;
+  // False when a crop, straighten or rotation lies between the two images
+  aligned: boolean;
+  // Switches to a step that lines up with the current image, if there is one
+  onCompareAligned?: () => void;
+}
+
+type PaneProps = Omit<CompareViewProps, 'mode' | 'aligned' | 'onCompareAligned'>;
+
+const Label: React.FC<{ text: string, className?: string }> = ({ text, className = '' }) => (
+  <span className={`absolute top-2 z-10 bg-black/60 text-xs font-semibold text-gray-200 px-2 py-1 rounded pointer-events-none ${className}`}>
+    {text}
+  </span>
+);
+
+const SplitView: React.FC<PaneProps> = ({ beforeUrl, afterUrl, beforeLabel, afterLabel }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState(50);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const updatePosition = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    setPosition(Math.min(100, Math.max(0, (clientX - rect.left) / rect.width * 100)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative select-none touch-none cursor-ew-resize"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setIsDragging(true);
+        updatePosition(e.clientX);
+      }}
+      onPointerMove={(e) => { if (isDragging) updatePosition(e.clientX); }}
+      onPointerUp={() => setIsDragging(false)}
+      onPointerCancel={() => setIsDragging(false)}
+    >
+      <img src={beforeUrl} alt={beforeLabel} draggable={false} className="w-full h-auto object-contain max-h-[60vh] rounded-xl" />
+      <img
+        src={afterUrl}
+        alt={afterLabel}
+        draggable={false}
+        className="absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl"
+        style={{ clipPath: `inset(0 0 0 ${position}%)` }}
+      />
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_4px_rgba(0,0,0,0.8)] pointer-events-none" style={{ left: `${position}%` }}>
+        <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-8 h-8 rounded-full bg-white/90 text-gray-900 text-xs font-bold flex items-center justify-center">↔</div>
+      </div>
+      <Label text={beforeLabel} className="left-2" />
+      <Label text={afterLabel} className="right-2" />
+    </div>
+  );
+};
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+
+const SideBySideView: React.FC<PaneProps> = ({ beforeUrl, afterUrl, beforeLabel, afterLabel }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // One transform for both panes keeps them in sync
+  const [view, setView] = useState<ViewTransform>(fitView);
+  const dragRef = useRef<{ x: number, y: number } | null>(null);
+
+  // Wheel listeners must be non-passive to stop the page from scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const pane = (e.target as HTMLElement).closest('[data-pane]');
+      if (!pane) return;
+      const rect = pane.getBoundingClientRect();
+      const px = e.clientX - rect.left;
+      const py = e.clientY - rect.top;
+      setView(current => {
+        const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.scale * Math.exp(-e.deltaY * 0.002)));
+        if (scale === MIN_ZOOM) return fitView;
+        // Keep the point under the cursor fixed
+        return zoomAt(current, scale, px, py);
+      });
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const pane = (url: string, label: string) => (
+    <div
+      data-pane
+      className="relative flex-1 overflow-hidden rounded-xl bg-black/20 touch-none cursor-grab active:cursor-grabbing"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { x: e.clientX, y: e.clientY };
+      }}
+      onPointerMove={(e) => {
+        if (!dragRef.current) return;
+        const dx = e.clientX - dragRef.current.x;
+        const dy = e.clientY - dragRef.current.y;
+        dragRef.current = { x: e.clientX, y: e.clientY };
+        setView(current => current.scale === 1 ? current : { ...current, x: current.x + dx, y: current.y + dy });
+      }}
+      onPointerUp={() => { dragRef.current = null; }}
+      onPointerCancel={() => { dragRef.current = null; }}
+      onDoubleClick={() => setView(fitView)}
+    >
+      <img
+        src={url}
+        alt={label}
+        draggable={false}
+        className="w-full h-auto object-contain max-h-[60vh] select-none"
+        style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`, transformOrigin: '0 0' }}
+      />
+      <Label text={label} className="left-2" />
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div ref={containerRef} className="flex gap-2 items-start">
+        {pane(beforeUrl, beforeLabel)}
+        {pane(afterUrl, afterLabel)}
+      </div>
+      <p className="text-xs text-gray-500 text-center">Scroll to zoom both sides, drag to pan, double-click to reset. {Math.round(view.scale * 100)}%</p>
+    </div>
+  );
+};
+
+const DifferenceView: React.FC<PaneProps> = ({ beforeUrl, afterUrl, beforeLabel, afterLabel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [layers, setLayers] = useState<{ base: ImageData, top: ImageData } | null>(null);
+  const [threshold, setThreshold] = useState(4);
+  const [result, setResult] = useState<DifferenceResult | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLayers(null);
+    // Full resolution, so single changed pixels are not averaged away
+    loadBlendLayers(afterUrl, beforeUrl)
+      .then(loaded => { if (!cancelled) setLayers(loaded); })
+      .catch(err => console.error('Could not compare images:', err));
+    return () => { cancelled = true; };
+  }, [beforeUrl, afterUrl]);
+
+  useEffect(() => {
+    if (!layers) return;
+    const difference = computeDifference(layers.top, layers.base, threshold);
+    setResult(difference);
+    const canvas = canvasRef.current;
+    if (canvas) {
+      canvas.width = difference.heatmap.width;
+      canvas.height = difference.heatmap.height;
+      canvas.getContext('2d')?.putImageData(difference.heatmap, 0, 0);
+    }
+  }, [layers, threshold]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="relative">
+        <canvas ref={canvasRef} className="w-full h-auto object-contain max-h-[60vh] rounded-xl bg-black" />
+        <Label text={`${beforeLabel} → ${afterLabel}`} className="left-2" />
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-400">
+        <span>
+          {result
+            ? `${(result.changedPixels / result.totalPixels * 100).toFixed(2)}% of pixels changed (${result.changedPixels.toLocaleString()})`
+            : 'Comparing…'}
+        </span>
+        <label className="flex items-center gap-2" title="Ignore differences up to this amount, e.g. compression noise">
+          Tolerance
+          <input type="range" min={0} max={64} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} />
+          <span className="w-6 text-gray-300">{threshold}</span>
+        </label>
+        <span className="flex items-center gap-1 text-xs">
+          small
+          <span className="w-16 h-2 rounded bg-gradient-to-r from-blue-600 via-yellow-400 to-red-600" />
+          large
+        </span>
+      </div>
+    </div>
+  );
+};
+
+// Resolves to whether both images have the same pixel size, or null while loading
+const useSameSize = (beforeUrl: string, afterUrl: string): boolean | null => {
+  const [sameSize, setSameSize] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSameSize(null);
+    Promise.all([loadImage(beforeUrl), loadImage(afterUrl)])
+      .then(([before, after]) => {
+        if (!cancelled) setSameSize(before.naturalWidth === after.naturalWidth && before.naturalHeight === after.naturalHeight);
+      })
+      .catch(err => {
+        console.error('Could not compare images:', err);
+        if (!cancelled) setSameSize(false);
+      });
+    return () => { cancelled = true; };
+  }, [beforeUrl, afterUrl]);
+
+  return sameSize;
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ mode, aligned, onCompareAligned, ...props }) => {
+  const sameSize = useSameSize(props.beforeUrl, props.afterUrl);
+  const needsAlignment = mode === 'split' || mode === 'difference';
+
+  if (needsAlignment && (!aligned || sameSize === false)) {
+    return (
+      <div className="flex flex-col items-center gap-3 rounded-xl bg-black/20 border border-gray-700 p-6 text-center">
+        <p className="text-gray-300">
+          {mode === 'split' ? 'Split' : 'Difference'} view needs images that line up pixel for pixel, but a crop, straighten or rotation lies between "{props.beforeLabel}" and "{props.afterLabel}".
+        </p>
+        <p className="text-sm text-gray-500">Use Side by Side for these two, or compare with a step after the change.</p>
+        {onCompareAligned && (
+          <button onClick={onCompareAligned} className="text-sm font-semibold text-gray-200 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-md transition-colors">
+            Compare with the first step that lines up
+          </button>
+        )}
+      </div>
+    );
+  }
+  if (needsAlignment && sameSize === null) {
+    return <p className="text-sm text-gray-400 text-center p-6">Comparing…</p>;
+  }
+
+  switch (mode) {
+    case 'split': return <SplitView {...props} />;
+    case 'side-by-side': return <SideBySideView {...props} />;
+    case 'difference': return <DifferenceView {...props} />;
+  }
+};
+
+export default CompareView;
@@ -3,46 +3,134 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { ImageTransform, Rect } from '../types';
 
 interface CropPanelProps {
   onApplyCrop: () => void;
+  aspect: number | undefined;
   onSetAspect: (aspect: number | undefined) => void;
+  // Selected area in pixels of the straightened image
+  cropRect: Rect | null;
+  onCropRectChange: (rect: Rect) => void;
+  // Size of the image after straightening
+  imageSize: { width: number, height: number } | null;
+  straighten: number;
+  onStraightenChange: (degrees: number) => void;
+  onTransform: (transform: ImageTransform) => void;
   isLoading: boolean;
   isCropping: boolean;
 }
 
-type AspectRatio = 'free' | '1:1' | '16:9';
+type AspectRatio = 'free' | '1:1' | '4:3' | '3:2' | '16:9' | '4:5' | '9:16';
 
-const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, isLoading, isCropping }) => {
-  const [activeAspect, setActiveAspect] = useState<AspectRatio>('free');
-  
-  const handleAspectChange = (aspect: AspectRatio, value: number | undefined) => {
-    setActiveAspect(aspect);
-    onSetAspect(value);
-  }
+const transforms: { transform: ImageTransform, label: string }[] = [
+  { transform: 'rotate-left', label: '↺ 90°' },
+  { transform: 'rotate-right', label: '↻ 90°' },
+  { transform: 'flip-horizontal', label: 'Flip H' },
+  { transform: 'flip-vertical', label: 'Flip V' },
+];
 
+// Number field that commits on blur or Enter, so typing is not clamped mid-way
+const PixelInput: React.FC<{ label: string, value: number | undefined, onCommit: (value: number) => void, disabled: boolean }> = ({ label, value, onCommit, disabled }) => {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setDraft(value === undefined ? '' : String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = Math.round(Number(draft));
+    if (draft.trim() !== '' && Number.isFinite(parsed)) {
+      onCommit(parsed);
+    } else {
+      setDraft(value === undefined ? '' : String(value));
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-1 text-sm text-gray-400">
+      {label}
+      <input
+        type="number"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+        disabled={disabled}
+        className="w-20 bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+      />
+    </label>
+  );
+};
+
+const CropPanel: React.FC<CropPanelProps> = ({
+  onApplyCrop,
+  aspect,
+  onSetAspect,
+  cropRect,
+  onCropRectChange,
+  imageSize,
+  straighten,
+  onStraightenChange,
+  onTransform,
+  isLoading,
+  isCropping,
+}) => {
   const aspects: { name: AspectRatio, value: number | undefined }[] = [
     { name: 'free', value: undefined },
     { name: '1:1', value: 1 / 1 },
+    { name: '4:3', value: 4 / 3 },
+    { name: '3:2', value: 3 / 2 },
     { name: '16:9', value: 16 / 9 },
+    { name: '4:5', value: 4 / 5 },
+    { name: '9:16', value: 9 / 16 },
   ];
 
+  const activeAspect = aspects.find(({ value }) => value === aspect)?.name ?? 'free';
+
+  // Applies a typed value, keeping the area inside the image and the aspect ratio locked
+  const handlePixelChange = (field: keyof Rect, value: number) => {
+    if (!imageSize) return;
+    const rect = cropRect ?? { x: 0, y: 0, width: imageSize.width, height: imageSize.height };
+    let { x, y, width, height }: Rect = { ...rect, [field]: value };
+    width = Math.min(Math.max(1, width), imageSize.width);
+    height = Math.min(Math.max(1, height), imageSize.height);
+    if (aspect) {
+      if (field === 'height') {
+        width = Math.round(height * aspect);
+        if (width > imageSize.width) {
+          width = imageSize.width;
+          height = Math.round(width / aspect);
+        }
+      } else {
+        height = Math.round(width / aspect);
+        if (height > imageSize.height) {
+          height = imageSize.height;
+          width = Math.round(height * aspect);
+        }
+      }
+    }
+    x = Math.min(Math.max(0, x), imageSize.width - width);
+    y = Math.min(Math.max(0, y), imageSize.height - height);
+    onCropRectChange({ x, y, width, height });
+  };
+
   return (
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col items-center gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-lg font-semibold text-gray-300">Crop Image</h3>
       <p className="text-sm text-gray-400 -mt-2">Click and drag on the image to select a crop area.</p>
-      
-      <div className="flex items-center gap-2">
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
         <span className="text-sm font-medium text-gray-400">Aspect Ratio:</span>
         {aspects.map(({ name, value }) => (
           <button
             key={name}
-            onClick={() => handleAspectChange(name, value)}
+            onClick={() => onSetAspect(value)}
             disabled={isLoading}
             className={`px-4 py-2 rounded-md text-base font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
-              activeAspect === name 
-              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20' 
+              activeAspect === name
+              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
               : 'bg-white/10 hover:bg-white/20 text-gray-200'
             }`}
           >
@@ -51,12 +139,55 @@ const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, isLoadi
         ))}
       </div>
 
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <PixelInput label="X" value={cropRect?.x} onCommit={(value) => handlePixelChange('x', value)} disabled={isLoading || !imageSize} />
+        <PixelInput label="Y" value={cropRect?.y} onCommit={(value) => handlePixelChange('y', value)} disabled={isLoading || !imageSize} />
+        <PixelInput label="W" value={cropRect?.width} onCommit={(value) => handlePixelChange('width', value)} disabled={isLoading || !imageSize} />
+        <PixelInput label="H" value={cropRect?.height} onCommit={(value) => handlePixelChange('height', value)} disabled={isLoading || !imageSize} />
+        {imageSize && <span className="text-xs text-gray-500">of {imageSize.width} × {imageSize.height} px</span>}
+      </div>
+
+      <div className="w-full max-w-md flex items-center gap-3">
+        <span className="text-sm font-medium text-gray-400">Straighten:</span>
+        <input
+          type="range"
+          min={-45}
+          max={45}
+          step={0.1}
+          value={straighten}
+          onChange={(e) => onStraightenChange(Number(e.target.value))}
+          disabled={isLoading}
+          className="flex-grow"
+        />
+        <span className="w-14 text-right text-sm text-gray-300">{straighten.toFixed(1)}°</span>
+        <button
+          onClick={() => onStraightenChange(0)}
+          disabled={isLoading || straighten === 0}
+          className="text-xs text-gray-400 hover:text-white disabled:opacity-40 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {transforms.map(({ transform, label }) => (
+          <button
+            key={transform}
+            onClick={() => onTransform(transform)}
+            disabled={isLoading}
+            className="px-4 py-2 rounded-md text-sm font-semibold bg-white/10 hover:bg-white/20 text-gray-200 transition-all duration-200 active:scale-95 disabled:opacity-50"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
       <button
         onClick={onApplyCrop}
-        disabled={isLoading || !isCropping}
+        disabled={isLoading || (!isCropping && straighten === 0)}
         className="w-full max-w-xs mt-2 bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
       >
-        Apply Crop
+        {isCropping ? 'Apply Crop' : 'Apply Straighten'}
       </button>
     </div>
   );
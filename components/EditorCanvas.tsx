@@ -2,3 +2,150 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useRef, useEffect, useCallback } from 'react';
+import { BrushSettings, EditMask } from '../types';
+import { toImagePoint } from '../services/viewport';
+
+interface EditorCanvasProps {
+  // Natural size of the image being painted on; the mask uses the same size
+  width: number;
+  height: number;
+  brush: BrushSettings;
+  onMaskChange: (mask: EditMask | null) => void;
+  disabled?: boolean;
+}
+
+// The canvas uses object-contain like the image below it, so the drawn area can be
+// letterboxed inside the element. This maps a pointer event to canvas pixels.
+const toCanvasPoint = (canvas: HTMLCanvasElement, clientX: number, clientY: number) =>
+  toImagePoint(canvas, canvas.width, canvas.height, clientX, clientY);
+
+// Finds the bounding box of all painted pixels, or null if nothing is painted
+const findBounds = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Renders the painted strokes as a white-on-black mask, softened by the feather radius
+const exportMask = (canvas: HTMLCanvasElement, feather: number): string => {
+  const output = document.createElement('canvas');
+  output.width = canvas.width;
+  output.height = canvas.height;
+  const ctx = output.getContext('2d')!;
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, output.width, output.height);
+  ctx.filter = `brightness(0) invert(1)${feather > 0 ? ` blur(${feather}px)` : ''}`;
+  ctx.drawImage(canvas, 0, 0);
+  return output.toDataURL('image/png');
+};
+
+// Builds the mask for the current strokes; the bounds grow by the feather radius
+const buildMask = (canvas: HTMLCanvasElement, feather: number): EditMask | null => {
+  const bounds = findBounds(canvas);
+  if (!bounds) return null;
+  const pad = Math.ceil(feather * 2);
+  const x = Math.max(0, bounds.x - pad);
+  const y = Math.max(0, bounds.y - pad);
+  return {
+    dataUrl: exportMask(canvas, feather),
+    bounds: {
+      x,
+      y,
+      width: Math.min(canvas.width, bounds.x + bounds.width + pad) - x,
+      height: Math.min(canvas.height, bounds.y + bounds.height + pad) - y,
+    },
+  };
+};
+
+const EditorCanvas: React.FC<EditorCanvasProps> = ({ width, height, brush, onMaskChange, disabled = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number, y: number } | null>(null);
+
+  // Resizing a canvas clears it, so a new image starts with an empty mask
+  useEffect(() => {
+    onMaskChange(null);
+  }, [width, height]);
+
+  // Re-export the existing strokes when the feather radius changes
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const mask = buildMask(canvasRef.current, brush.feather);
+    if (mask) onMaskChange(mask);
+  }, [brush.feather]);
+
+  const drawTo = useCallback((x: number, y: number, scale: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    // Brush size is in screen pixels, so it feels the same regardless of image size
+    const radius = brush.size / 2 / scale;
+    ctx.globalCompositeOperation = brush.tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = 'rgb(59, 130, 246)';
+    ctx.fillStyle = 'rgb(59, 130, 246)';
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = radius * 2;
+
+    const last = lastPointRef.current;
+    if (last) {
+      ctx.beginPath();
+      ctx.moveTo(last.x, last.y);
+      ctx.lineTo(x, y);
+      ctx.stroke();
+    } else {
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    lastPointRef.current = { x, y };
+  }, [brush.size, brush.tool]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || !canvasRef.current) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    const { x, y, scale } = toCanvasPoint(canvasRef.current, e.clientX, e.clientY);
+    drawTo(x, y, scale);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current || !canvasRef.current) return;
+    const { x, y, scale } = toCanvasPoint(canvasRef.current, e.clientX, e.clientY);
+    drawTo(x, y, scale);
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current || !canvasRef.current) return;
+    lastPointRef.current = null;
+    onMaskChange(buildMask(canvasRef.current, brush.feather));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl opacity-50 touch-none z-10 ${disabled ? 'pointer-events-none' : 'cursor-crosshair'}`}
+    />
+  );
+};
+
+export default EditorCanvas;
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ImageErrorKind, ImageGenerationError } from '../services/errors';
+
+interface ErrorPanelProps {
+  message: string;
+  cause?: unknown;
+  onRetry?: () => void;
+  onDismiss: () => void;
+  onOpenSettings?: () => void;
+}
+
+interface ErrorPresentation {
+  title: string;
+  hint?: string;
+  // Whether retrying the same request can reasonably succeed
+  canRetry: boolean;
+  dismissLabel: string;
+}
+
+const presentations: Record<ImageErrorKind, ErrorPresentation> = {
+  'rate-limited': {
+    title: 'Too Many Requests',
+    hint: 'The AI provider is limiting requests right now. Wait a moment, then retry.',
+    canRetry: true,
+    dismissLabel: 'Dismiss',
+  },
+  'auth-missing': {
+    title: 'API Key Missing',
+    hint: 'No valid API key is configured for the image providers. Add a Replicate or OpenRouter key in Settings.',
+    canRetry: false,
+    dismissLabel: 'Dismiss',
+  },
+  'safety-refusal': {
+    title: 'Request Declined',
+    hint: 'The model declined this request. Try rephrasing your prompt.',
+    canRetry: false,
+    dismissLabel: 'Edit Prompt',
+  },
+  'timeout': {
+    title: 'Request Timed Out',
+    hint: 'The AI provider took too long to respond. Retrying usually helps.',
+    canRetry: true,
+    dismissLabel: 'Dismiss',
+  },
+  'invalid-output': {
+    title: 'Unexpected Result',
+    hint: 'The AI provider did not return a usable image. Retry, or try a different prompt.',
+    canRetry: true,
+    dismissLabel: 'Dismiss',
+  },
+  'network': {
+    title: 'Connection Problem',
+    hint: 'The AI provider could not be reached. Check your connection and retry.',
+    canRetry: true,
+    dismissLabel: 'Dismiss',
+  },
+  'unknown': {
+    title: 'An Error Occurred',
+    canRetry: false,
+    dismissLabel: 'Try Again',
+  },
+};
+
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ message, cause, onRetry, onDismiss, onOpenSettings }) => {
+  const kind: ImageErrorKind = cause instanceof ImageGenerationError ? cause.kind : 'unknown';
+  const presentation = presentations[kind];
+  const showRetry = presentation.canRetry && !!onRetry;
+  const showSettings = kind === 'auth-missing' && !!onOpenSettings;
+
+  return (
+    <div className="text-center animate-fade-in bg-red-500/10 border border-red-500/20 p-8 rounded-lg max-w-2xl mx-auto flex flex-col items-center gap-4">
+      <h2 className="text-2xl font-bold text-red-300">{presentation.title}</h2>
+      {presentation.hint && <p className="text-md text-red-200">{presentation.hint}</p>}
+      <p className="text-sm text-red-400 break-words">{message}</p>
+      <div className="flex items-center gap-3">
+        {showSettings && (
+          <button
+            onClick={() => { onDismiss(); onOpenSettings!(); }}
+            className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors"
+          >
+            Open Settings
+          </button>
+        )}
+        {showRetry && (
+          <button
+            onClick={onRetry}
+            className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors"
+          >
+            Retry
+          </button>
+        )}
+        <button
+          onClick={onDismiss}
+          className={showRetry || showSettings
+            ? 'bg-white/10 hover:bg-white/20 text-gray-200 font-bold py-2 px-6 rounded-lg text-md transition-colors'
+            : 'bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors'}
+        >
+          {presentation.dismissLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorPanel;
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import {
+  exportFormats,
+  getSupportedExportFormats,
+  canKeepMetadata,
+  getExportSize,
+  renderExport,
+  getExportFileName,
+  ExportFormat,
+  ExportResize,
+} from '../services/exportImage';
+import { formatBytes } from '../services/format';
+import { loadImage } from '../services/imageUtils';
+import { ImageMetadata } from '../types';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  image: File | null;
+  // Metadata sidecar of the uploaded original, if it had any
+  metadata: ImageMetadata | null;
+}
+
+type ResizeMode = ExportResize['mode'];
+
+// EXIF dates look like "2024:05:01 14:32:10"
+const formatExifDate = (value: string): string => {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2})/);
+  if (!match) return value;
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return new Date(year, month - 1, day, hour, minute).toLocaleString();
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, image, metadata }) => {
+  const [supportedFormats, setSupportedFormats] = useState<ExportFormat[]>(['png']);
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [quality, setQuality] = useState<number>(90);
+  const [resizeMode, setResizeMode] = useState<ResizeMode>('original');
+  const [longEdge, setLongEdge] = useState<number>(2048);
+  const [percent, setPercent] = useState<number>(50);
+  const [keepMetadata, setKeepMetadata] = useState<boolean>(true);
+  const [sourceSize, setSourceSize] = useState<{ width: number, height: number } | null>(null);
+  const [result, setResult] = useState<Blob | null>(null);
+  const [isRendering, setIsRendering] = useState<boolean>(false);
+  const [renderError, setRenderError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSupportedExportFormats().then(setSupportedFormats);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen || !image) return;
+    const url = URL.createObjectURL(image);
+    loadImage(url)
+      .then(loaded => setSourceSize({ width: loaded.naturalWidth, height: loaded.naturalHeight }))
+      .catch(err => {
+        console.error('Could not read the image size for export:', err);
+        setSourceSize(null);
+      })
+      .finally(() => URL.revokeObjectURL(url));
+  }, [isOpen, image]);
+
+  const resize: ExportResize = resizeMode === 'long-edge'
+    ? { mode: 'long-edge', size: longEdge }
+    : resizeMode === 'percent' ? { mode: 'percent', percent } : { mode: 'original' };
+  const exif = metadata?.exif ?? null;
+  const metadataAvailable = !!exif && canKeepMetadata(format);
+  const embedExif = keepMetadata && metadataAvailable ? exif : null;
+
+  // Re-encode shortly after the options settle, to show the real file size
+  useEffect(() => {
+    if (!isOpen || !image) return;
+    let cancelled = false;
+    setIsRendering(true);
+    const timer = setTimeout(() => {
+      renderExport(image, { format, quality: quality / 100, resize, exif: embedExif })
+        .then(blob => {
+          if (cancelled) return;
+          setResult(blob);
+          setRenderError(null);
+        })
+        .catch(err => {
+          if (cancelled) return;
+          setResult(null);
+          setRenderError(err instanceof Error ? err.message : 'Could not encode the image.');
+        })
+        .finally(() => { if (!cancelled) setIsRendering(false); });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, image, format, quality, resizeMode, longEdge, percent, embedExif]);
+
+  if (!isOpen || !image) return null;
+
+  const outputSize = sourceSize ? getExportSize(sourceSize.width, sourceSize.height, resize) : null;
+  const isLossy = exportFormats.find(info => info.format === format)!.lossy;
+
+  const handleSave = () => {
+    if (!result) return;
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(result);
+    link.download = getExportFileName(image.name, format);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-gray-800 border border-gray-700 rounded-lg p-6 flex flex-col gap-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-100">Export Image</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close export">×</button>
+        </div>
+
+        <section className="flex flex-col gap-3">
+          <h3 className="text-sm font-semibold text-gray-300">Format</h3>
+          <div className="grid grid-cols-4 gap-2">
+            {exportFormats.map(info => (
+              <button
+                key={info.format}
+                onClick={() => setFormat(info.format)}
+                disabled={!supportedFormats.includes(info.format)}
+                title={supportedFormats.includes(info.format) ? undefined : 'Not supported by this browser'}
+                className={`py-2 rounded-md text-sm font-semibold transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
+                  format === info.format
+                  ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+                  : 'bg-white/10 hover:bg-white/20 text-gray-200'
+                }`}
+              >
+                {info.label}
+              </button>
+            ))}
+          </div>
+          {isLossy && (
+            <label className="flex flex-col gap-2 text-sm text-gray-400">
+              <span>Quality: {quality}</span>
+              <input type="range" min={1} max={100} value={quality} onChange={(e) => setQuality(Number(e.target.value))} />
+            </label>
+          )}
+        </section>
+
+        <section className="flex flex-col gap-3">
+          <h3 className="text-sm font-semibold text-gray-300">Size</h3>
+          <div className="flex items-center gap-2">
+            {([['original', 'Original'], ['long-edge', 'Long edge'], ['percent', 'Percent']] as [ResizeMode, string][]).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setResizeMode(mode)}
+                className={`flex-1 py-2 rounded-md text-sm font-semibold transition-all duration-200 ${
+                  resizeMode === mode
+                  ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+                  : 'bg-white/10 hover:bg-white/20 text-gray-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {resizeMode === 'long-edge' && (
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Long edge
+              <input
+                type="number"
+                min={16}
+                max={16384}
+                value={longEdge}
+                onChange={(e) => setLongEdge(Math.max(1, Number(e.target.value) || 1))}
+                className="w-28 bg-gray-900 border border-gray-600 text-gray-200 rounded-md p-2"
+              />
+              px
+            </label>
+          )}
+          {resizeMode === 'percent' && (
+            <label className="flex flex-col gap-2 text-sm text-gray-400">
+              <span>Scale: {percent}%</span>
+              <input type="range" min={5} max={100} value={percent} onChange={(e) => setPercent(Number(e.target.value))} />
+            </label>
+          )}
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <h3 className="text-sm font-semibold text-gray-300">Metadata</h3>
+          <label className={`flex items-center gap-2 text-sm ${metadataAvailable ? 'text-gray-400 cursor-pointer' : 'text-gray-600'}`}>
+            <input
+              type="checkbox"
+              checked={keepMetadata && metadataAvailable}
+              onChange={(e) => setKeepMetadata(e.target.checked)}
+              disabled={!metadataAvailable}
+            />
+            Keep camera metadata (EXIF)
+          </label>
+          {metadata && (metadata.camera || metadata.takenAt) && (
+            <p className="text-xs text-gray-500">
+              {[metadata.camera, metadata.takenAt && formatExifDate(metadata.takenAt)].filter(Boolean).join(' · ')}
+            </p>
+          )}
+          {!exif && <p className="text-xs text-gray-500">The original image has no metadata to keep.</p>}
+          {exif && !canKeepMetadata(format) && <p className="text-xs text-gray-500">Metadata can only be kept for JPEG and PNG.</p>}
+        </section>
+
+        <div className="flex items-center justify-between gap-4 border-t border-gray-700 pt-4">
+          <div className="text-sm text-gray-400">
+            {outputSize && <p>{outputSize.width} × {outputSize.height} px</p>}
+            <p className="text-gray-200 font-semibold">
+              {renderError ? <span className="text-red-400">{renderError}</span> : isRendering || !result ? 'Calculating size…' : formatBytes(result.size)}
+            </p>
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={!result || isRendering}
+            className="bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-3 px-6 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 active:scale-95 text-base disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
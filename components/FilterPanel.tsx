@@ -3,24 +3,92 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { Lut3D, applyLut, parseCubeLut } from '../services/lut';
+import { loadImage, createCanvas } from '../services/imageUtils';
+import PresetLibrary from './PresetLibrary';
 
 interface FilterPanelProps {
   onApplyFilter: (prompt: string) => void;
   isLoading: boolean;
   initialPrompt?: string;
+  // Current image, for the LUT thumbnails
+  imageUrl: string | null;
+  luts: Lut3D[];
+  selectedLutId: string | null;
+  onSelectLut: (id: string | null) => void;
+  // Percent of the graded result to use
+  lutStrength: number;
+  onLutStrengthChange: (strength: number) => void;
+  onImportLut: (lut: Lut3D) => void;
+  onApplyLut: () => void;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading, initialPrompt }) => {
+const THUMBNAIL_SIZE = 160;
+
+// Renders every LUT on a small copy of the image
+const useLutThumbnails = (imageUrl: string | null, luts: Lut3D[], strength: number): Record<string, string> => {
+  const [source, setSource] = useState<ImageData | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!imageUrl) return;
+    let cancelled = false;
+    loadImage(imageUrl).then(image => {
+      if (cancelled) return;
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+      const width = Math.max(1, Math.round(image.naturalWidth * scale));
+      const height = Math.max(1, Math.round(image.naturalHeight * scale));
+      const { ctx } = createCanvas(width, height);
+      ctx.drawImage(image, 0, 0, width, height);
+      setSource(ctx.getImageData(0, 0, width, height));
+    }).catch(err => {
+      console.error('Could not load the image for filter thumbnails:', err);
+      if (cancelled) return;
+      // Show empty swatches rather than thumbnails of the previous image
+      setSource(null);
+      setThumbnails({});
+    });
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    if (!source) return;
+    // Wait for the strength slider to settle
+    const timer = setTimeout(() => {
+      const { canvas, ctx } = createCanvas(source.width, source.height);
+      const next: Record<string, string> = {};
+      luts.forEach(lut => {
+        const image = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+        applyLut(image, lut, strength / 100);
+        ctx.putImageData(image, 0, 0);
+        next[lut.id] = canvas.toDataURL('image/jpeg', 0.85);
+      });
+      setThumbnails(next);
+    }, 150);
+    return () => clearTimeout(timer);
+  }, [source, luts, strength]);
+
+  return thumbnails;
+};
+
+const FilterPanel: React.FC<FilterPanelProps> = ({
+  onApplyFilter,
+  isLoading,
+  initialPrompt,
+  imageUrl,
+  luts,
+  selectedLutId,
+  onSelectLut,
+  lutStrength,
+  onLutStrengthChange,
+  onImportLut,
+  onApplyLut,
+}) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState(initialPrompt || '');
-
-  const presets = [
-    { name: 'Synthwave', prompt: 'Apply a vibrant 80s synthwave aesthetic with neon magenta and cyan glows, and subtle scan lines.' },
-    { name: 'Anime', prompt: 'Give the image a vibrant Japanese anime style, with bold outlines, cel-shading, and saturated colors.' },
-    { name: 'Lomo', prompt: 'Apply a Lomography-style cross-processing film effect with high-contrast, oversaturated colors, and dark vignetting.' },
-    { name: 'Glitch', prompt: 'Transform the image into a futuristic holographic projection with digital glitch effects and chromatic aberration.' },
-  ];
+  const [importError, setImportError] = useState<string | null>(null);
+  const thumbnails = useLutThumbnails(imageUrl, luts, lutStrength);
   
   const activePrompt = selectedPresetPrompt || customPrompt;
 
@@ -40,23 +108,83 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading, ini
     }
   };
 
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow importing the same file again
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const lut = parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''));
+      setImportError(null);
+      onImportLut(lut);
+      onSelectLut(lut.id);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not read the LUT file.');
+    }
+  };
+
   return (
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
-      <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Filter</h3>
-      
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-        {presets.map(preset => (
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-300">Color Grades</h3>
+        <label className={`text-sm font-semibold text-gray-200 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-md transition-colors ${isLoading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+          Import .cube
+          <input type="file" accept=".cube" className="hidden" onChange={handleImport} disabled={isLoading} />
+        </label>
+      </div>
+      <p className="text-sm text-gray-400 -mt-2">Look-up tables give the same result on every photo, with no AI involved.</p>
+      {importError && <p className="text-sm text-red-400">{importError}</p>}
+
+      <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+        {luts.map(lut => (
           <button
-            key={preset.name}
-            onClick={() => handlePresetClick(preset.prompt)}
+            key={lut.id}
+            onClick={() => onSelectLut(selectedLutId === lut.id ? null : lut.id)}
             disabled={isLoading}
-            className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
+            className={`flex flex-col gap-1 p-1 rounded-md bg-white/5 hover:bg-white/10 transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed ${selectedLutId === lut.id ? 'ring-2 ring-blue-500' : ''}`}
           >
-            {preset.name}
+            <div className="w-full aspect-square rounded overflow-hidden bg-gray-700">
+              {thumbnails[lut.id] && <img src={thumbnails[lut.id]} alt={lut.name} className="w-full h-full object-cover" />}
+            </div>
+            <span className="text-xs text-gray-300 truncate">{lut.name}</span>
           </button>
         ))}
       </div>
 
+      <label className="flex items-center gap-3 text-sm text-gray-400">
+        Strength
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={lutStrength}
+          onChange={(e) => onLutStrengthChange(Number(e.target.value))}
+          disabled={isLoading}
+          className="flex-grow"
+        />
+        <span className="w-10 text-right text-gray-300">{lutStrength}%</span>
+      </label>
+
+      {selectedLutId && (
+        <button
+          onClick={onApplyLut}
+          disabled={isLoading || lutStrength === 0}
+          className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none animate-fade-in"
+        >
+          Apply Color Grade
+        </button>
+      )}
+
+      <h3 className="text-lg font-semibold text-center text-gray-300 border-t border-gray-700 pt-4">Apply an AI Filter</h3>
+      
+      <PresetLibrary
+        kind="filter"
+        selectedPrompt={selectedPresetPrompt}
+        onSelect={handlePresetClick}
+        currentPrompt={customPrompt}
+        disabled={isLoading}
+      />
+
       <input
         type="text"
         value={customPrompt}
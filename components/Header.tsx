@@ -3,6 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import { CogIcon } from './icons';
 
 const SparkleIcon: React.FC<{ className?: string }> = ({ className }) => (
   <svg className={className} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
@@ -10,14 +11,33 @@ const SparkleIcon: React.FC<{ className?: string }> = ({ className }) => (
   </svg>
 );
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  onOpenSettings?: () => void;
+  isMockMode?: boolean;
+}
+
+const Header: React.FC<HeaderProps> = ({ onOpenSettings, isMockMode = false }) => {
   return (
     <header className="w-full py-4 px-8 border-b border-gray-700 bg-gray-800/30 backdrop-blur-sm sticky top-0 z-50">
-      <div className="flex items-center justify-center gap-3">
+      <div className="relative flex items-center justify-center gap-3">
           <SparkleIcon className="w-6 h-6 text-blue-400" />
           <h1 className="text-xl font-bold tracking-tight text-gray-100">
             Pixshop
           </h1>
+          {isMockMode && (
+            <span className="text-xs font-semibold text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-full px-2 py-0.5">
+              Offline mock
+            </span>
+          )}
+          {onOpenSettings && (
+            <button
+              onClick={onOpenSettings}
+              className="absolute right-0 text-gray-400 hover:text-white transition-colors"
+              aria-label="Open settings"
+            >
+              <CogIcon className="w-6 h-6" />
+            </button>
+          )}
       </div>
     </header>
   );
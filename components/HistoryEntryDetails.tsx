@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { HistoryNode, ImageTransform } from '../types';
+import { historyLabels } from '../services/historyTree';
+import { describeAdjustments } from '../services/localAdjustments';
+
+interface HistoryEntryDetailsProps {
+  entry: HistoryNode;
+  // Re-runs the step's operation on its parent image, creating a sibling step
+  onRerun?: (prompt: string) => void;
+  disabled?: boolean;
+}
+
+const transformLabels: Record<ImageTransform, string> = {
+  'rotate-left': 'Rotated 90° left',
+  'rotate-right': 'Rotated 90° right',
+  'flip-horizontal': 'Flipped horizontally',
+  'flip-vertical': 'Flipped vertically',
+};
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const HistoryEntryDetails: React.FC<HistoryEntryDetailsProps> = ({ entry, onRerun, disabled = false }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftPrompt, setDraftPrompt] = useState(entry.prompt ?? '');
+
+  // Start over when another step is selected
+  useEffect(() => {
+    setIsEditing(false);
+    setDraftPrompt(entry.prompt ?? '');
+  }, [entry.id]);
+
+  const details: [string, string][] = [];
+  if (entry.prompt) details.push(['Prompt', entry.prompt]);
+  if (entry.hotspot) details.push(['Hotspot', `(${entry.hotspot.x}, ${entry.hotspot.y})${entry.mask ? ' with mask' : ''}`]);
+  if (entry.cropRect) {
+    const { x, y, width, height } = entry.cropRect;
+    details.push(['Crop', `${width}×${height} at (${x}, ${y})`]);
+  }
+  if (entry.straighten) details.push(['Straighten', `${entry.straighten}°`]);
+  if (entry.transform) details.push(['Transform', transformLabels[entry.transform]]);
+  if (entry.adjustments) details.push(['Adjustments', describeAdjustments(entry.adjustments)]);
+  if (entry.lut) details.push(['Color grade', `${entry.lut.name} at ${entry.lut.strength}%`]);
+  if (entry.blend) details.push(['Blend', `${entry.blend.opacity}% ${entry.blend.mode}`]);
+  if (entry.provider) details.push(['Provider', entry.provider]);
+  if (entry.durationMs !== undefined) details.push(['Duration', formatDuration(entry.durationMs)]);
+  details.push(['Time', new Date(entry.timestamp).toLocaleString()]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onRerun || !draftPrompt.trim()) return;
+    onRerun(draftPrompt.trim());
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-3 animate-fade-in backdrop-blur-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-gray-300">{historyLabels[entry.type]}</h3>
+        {onRerun && entry.prompt && !isEditing && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onRerun(entry.prompt!)}
+              disabled={disabled}
+              className="text-xs font-semibold text-gray-200 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Re-run
+            </button>
+            <button
+              onClick={() => setIsEditing(true)}
+              disabled={disabled}
+              className="text-xs font-semibold text-gray-200 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Edit Prompt & Re-run
+            </button>
+          </div>
+        )}
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        {details.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="text-gray-300 break-words">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      {isEditing && (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2 animate-fade-in">
+          <input
+            type="text"
+            value={draftPrompt}
+            onChange={(e) => setDraftPrompt(e.target.value)}
+            autoFocus
+            className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition"
+            disabled={disabled}
+          />
+          <button
+            type="submit"
+            disabled={disabled || !draftPrompt.trim()}
+            className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-semibold py-3 px-4 text-sm rounded-lg transition-all duration-200 active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:cursor-not-allowed"
+          >
+            Re-run
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsEditing(false)}
+            className="text-sm text-gray-400 hover:text-white px-2 transition-colors"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default HistoryEntryDetails;
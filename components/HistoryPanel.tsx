@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { HistoryNode, HistoryTree } from '../types';
+import { getChildren, getPathToNode, historyLabels } from '../services/historyTree';
+
+interface HistoryPanelProps {
+  tree: HistoryTree;
+  // Node shown underneath the current image when comparing, or null for the original
+  compareId: string | null;
+  onJump: (id: string) => void;
+  onCompare: (id: string | null) => void;
+  disabled?: boolean;
+}
+
+// A run of nodes where each one is the first child of the previous one
+interface Lane {
+  depth: number;
+  nodes: HistoryNode[];
+}
+
+// Lays the tree out like a git graph: first children continue a lane, later ones start a new lane
+const buildLanes = (tree: HistoryTree): Lane[] => {
+  if (!tree.rootId) return [];
+  const lanes: Lane[] = [];
+  const walk = (node: HistoryNode, depth: number, lane: Lane) => {
+    lane.nodes.push(node);
+    getChildren(tree, node.id).forEach((child, i) => {
+      if (i === 0) {
+        walk(child, depth + 1, lane);
+      } else {
+        const branch: Lane = { depth: depth + 1, nodes: [] };
+        lanes.push(branch);
+        walk(child, depth + 1, branch);
+      }
+    });
+  };
+  const main: Lane = { depth: 0, nodes: [] };
+  lanes.push(main);
+  walk(tree.nodes[tree.rootId], 0, main);
+  return lanes;
+};
+
+const THUMB_SIZE = 72;
+const GAP = 8;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ tree, compareId, onJump, onCompare, disabled = false }) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  // Object URLs for every node, revoked when the images change
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    Object.values(tree.nodes).forEach((node: HistoryNode) => {
+      urls[node.id] = URL.createObjectURL(node.image);
+    });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [tree.nodes]);
+
+  const lanes = useMemo(() => buildLanes(tree), [tree]);
+  const currentPath = useMemo(
+    () => new Set(tree.currentId ? getPathToNode(tree, tree.currentId).map(node => node.id) : []),
+    [tree]
+  );
+
+  if (lanes.length === 0) return null;
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-3 animate-fade-in backdrop-blur-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-300">History</h3>
+        {compareId && (
+          <button
+            onClick={() => onCompare(null)}
+            className="text-xs text-gray-400 hover:text-white transition-colors"
+          >
+            Compare with original instead
+          </button>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <div className="flex flex-col gap-2 min-w-max">
+          {lanes.map(lane => (
+            <div
+              key={lane.nodes[0].id}
+              className="flex items-start"
+              style={{ gap: GAP, marginLeft: lane.depth * (THUMB_SIZE + GAP) }}
+            >
+              {lane.nodes.map(node => {
+                const isCurrent = node.id === tree.currentId;
+                const isCompare = node.id === compareId;
+                const depth = getPathToNode(tree, node.id).length - 1;
+                return (
+                  <div key={node.id} className="flex flex-col items-center gap-1" style={{ width: THUMB_SIZE }}>
+                    <button
+                      onClick={() => onJump(node.id)}
+                      disabled={disabled}
+                      title={`Step ${depth}: ${historyLabels[node.type]}${node.prompt ? ` – ${node.prompt}` : ''}`}
+                      className={`relative rounded-md overflow-hidden border-2 transition-all duration-200 disabled:cursor-not-allowed ${
+                        isCurrent
+                        ? 'border-blue-500 shadow-md shadow-blue-500/30'
+                        : currentPath.has(node.id) ? 'border-blue-500/40' : 'border-transparent opacity-70 hover:opacity-100'
+                      }`}
+                      style={{ width: THUMB_SIZE, height: THUMB_SIZE }}
+                    >
+                      {thumbnails[node.id] && (
+                        <img src={thumbnails[node.id]} alt={historyLabels[node.type]} className="w-full h-full object-cover" />
+                      )}
+                      {isCompare && (
+                        <span className="absolute top-0 left-0 right-0 bg-cyan-500/80 text-[10px] font-semibold text-white">Compare</span>
+                      )}
+                    </button>
+                    <span className="text-[11px] text-gray-400 truncate w-full text-center">{historyLabels[node.type]}</span>
+                    {!isCurrent && (
+                      <button
+                        onClick={() => onCompare(isCompare ? null : node.id)}
+                        className={`text-[10px] transition-colors ${isCompare ? 'text-cyan-300' : 'text-gray-500 hover:text-gray-200'}`}
+                      >
+                        {isCompare ? 'Comparing' : 'Compare'}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { loadImage, createCanvas } from '../services/imageUtils';
+
+interface LivePreviewProps {
+  imageUrl: string;
+  // Modifies the pixels in place; a new function re-renders the preview
+  process: (image: ImageData) => void;
+}
+
+// The preview works on a downscaled copy so sliders stay responsive on large images
+const PREVIEW_MAX_SIZE = 1200;
+
+const LivePreview: React.FC<LivePreviewProps> = ({ imageUrl, process }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [source, setSource] = useState<ImageData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl).then(image => {
+      if (cancelled) return;
+      const scale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+      const width = Math.max(1, Math.round(image.naturalWidth * scale));
+      const height = Math.max(1, Math.round(image.naturalHeight * scale));
+      const { ctx } = createCanvas(width, height);
+      ctx.drawImage(image, 0, 0, width, height);
+      setSource(ctx.getImageData(0, 0, width, height));
+    }).catch(err => console.error('Could not load the preview image:', err));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !source) return;
+    const frame = requestAnimationFrame(() => {
+      const image = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+      process(image);
+      canvas.width = image.width;
+      canvas.height = image.height;
+      canvas.getContext('2d')?.putImageData(image, 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, process]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none z-10"
+    />
+  );
+};
+
+export default LivePreview;
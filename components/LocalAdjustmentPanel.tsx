@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { LocalAdjustments } from '../types';
+import { defaultAdjustments, isNeutralAdjustment } from '../services/localAdjustments';
+import ToneCurveEditor from './ToneCurveEditor';
+
+interface LocalAdjustmentPanelProps {
+  adjustments: LocalAdjustments;
+  onChange: (adjustments: LocalAdjustments) => void;
+  onApply: () => void;
+  isLoading: boolean;
+}
+
+type SliderKey = Exclude<keyof LocalAdjustments, 'curve'>;
+
+const sliderGroups: { title: string, sliders: { key: SliderKey, label: string, min: number, max: number, step: number }[] }[] = [
+  {
+    title: 'Light',
+    sliders: [
+      { key: 'exposure', label: 'Exposure', min: -3, max: 3, step: 0.05 },
+      { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+      { key: 'highlights', label: 'Highlights', min: -100, max: 100, step: 1 },
+      { key: 'shadows', label: 'Shadows', min: -100, max: 100, step: 1 },
+    ],
+  },
+  {
+    title: 'Color',
+    sliders: [
+      { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1 },
+      { key: 'tint', label: 'Tint', min: -100, max: 100, step: 1 },
+      { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+      { key: 'vibrance', label: 'Vibrance', min: -100, max: 100, step: 1 },
+    ],
+  },
+  {
+    title: 'Detail',
+    sliders: [
+      { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1 },
+    ],
+  },
+];
+
+const LocalAdjustmentPanel: React.FC<LocalAdjustmentPanelProps> = ({ adjustments, onChange, onApply, isLoading }) => {
+  const isNeutral = isNeutralAdjustment(adjustments);
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-300">Adjust Locally</h3>
+        <button
+          onClick={() => onChange(defaultAdjustments)}
+          disabled={isLoading || isNeutral}
+          className="text-sm text-gray-400 hover:text-white disabled:opacity-40 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+      <p className="text-sm text-gray-400 -mt-2">Instant, exact changes computed on your device. Double-click a curve point to remove it.</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {sliderGroups.map(group => (
+          <div key={group.title} className="flex flex-col gap-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">{group.title}</h4>
+            {group.sliders.map(({ key, label, min, max, step }) => (
+              <label key={key} className="flex flex-col gap-1 text-sm text-gray-400">
+                <span className="flex justify-between">
+                  {label}
+                  <span className="text-gray-300">{adjustments[key] > 0 ? '+' : ''}{adjustments[key]}</span>
+                </span>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={adjustments[key]}
+                  onChange={(e) => onChange({ ...adjustments, [key]: Number(e.target.value) })}
+                  onDoubleClick={() => onChange({ ...adjustments, [key]: 0 })}
+                  disabled={isLoading}
+                />
+              </label>
+            ))}
+          </div>
+        ))}
+        <div className="flex flex-col gap-2">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Tone Curve</h4>
+          <ToneCurveEditor
+            points={adjustments.curve}
+            onChange={(curve) => onChange({ ...adjustments, curve })}
+            disabled={isLoading}
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={onApply}
+        disabled={isLoading || isNeutral}
+        className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+      >
+        Apply Adjustments
+      </button>
+    </div>
+  );
+};
+
+export default LocalAdjustmentPanel;
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { Macro, MacroStep, describeMacroStep } from '../services/macro';
+import { getMacros, subscribeMacros, deleteMacro } from '../services/macroStore';
+
+// Progress of a macro replay. Steps before `current` are done; a failure stops at `current`.
+export interface MacroRun {
+  name: string;
+  steps: MacroStep[];
+  current: number;
+  failure?: string;
+}
+
+interface MacroPanelProps {
+  // Steps on the path to the current image, oldest first, excluding the original
+  historySteps: { id: string, label: string, recordable: boolean }[];
+  onRecord: (name: string, stepIds: string[]) => Promise<void>;
+  onRun: (macro: Macro) => void;
+  run: MacroRun | null;
+  onDismissRun: () => void;
+  disabled: boolean;
+}
+
+const smallButton = 'text-sm font-semibold text-gray-200 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const stepStatus = (run: MacroRun, index: number): { icon: string, className: string } => {
+  if (index < run.current) return { icon: '✓', className: 'text-green-400' };
+  if (index > run.current) return { icon: '·', className: 'text-gray-500' };
+  if (run.failure) return { icon: '✕', className: 'text-red-400' };
+  return { icon: '…', className: 'text-blue-400 animate-pulse' };
+};
+
+const MacroPanel: React.FC<MacroPanelProps> = ({ historySteps, onRecord, onRun, run, onDismissRun, disabled }) => {
+  const [macros, setMacros] = useState(getMacros);
+  const [isRecording, setIsRecording] = useState(false);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => subscribeMacros(setMacros), []);
+
+  const startRecording = () => {
+    setSelected(new Set(historySteps.filter(step => step.recordable).map(step => step.id)));
+    setName('');
+    setIsRecording(true);
+  };
+
+  const toggleStep = (id: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onRecord(name, historySteps.filter(step => selected.has(step.id)).map(step => step.id));
+      setIsRecording(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isRunning = !!run && !run.failure && run.current < run.steps.length;
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-3 animate-fade-in backdrop-blur-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-300">Macros</h3>
+        {!isRecording && (
+          <button onClick={startRecording} disabled={disabled || historySteps.length === 0} className={smallButton} title={historySteps.length === 0 ? 'Edit the image first, then record the steps' : undefined}>
+            Record from History
+          </button>
+        )}
+      </div>
+
+      {isRecording && (
+        <form onSubmit={(e) => { e.preventDefault(); handleSave(); }} className="flex flex-col gap-2 animate-fade-in">
+          <p className="text-sm text-gray-400">Choose the steps to include. Positions are saved relative to the image, so they fit photos of any size.</p>
+          {historySteps.map(step => (
+            <label key={step.id} className={`flex items-center gap-2 text-sm ${step.recordable ? 'text-gray-300 cursor-pointer' : 'text-gray-600'}`}>
+              <input type="checkbox" checked={selected.has(step.id)} onChange={() => toggleStep(step.id)} disabled={!step.recordable} />
+              <span className="truncate">{step.label}</span>
+              {!step.recordable && <span className="text-xs">(cannot be replayed)</span>}
+            </label>
+          ))}
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Macro name, e.g. 'Catalog look'"
+              autoFocus
+              className="flex-grow min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+            <button type="submit" disabled={isSaving || !name.trim() || selected.size === 0} className={smallButton}>Save</button>
+            <button type="button" onClick={() => setIsRecording(false)} className={smallButton}>Cancel</button>
+          </div>
+        </form>
+      )}
+
+      {run && (
+        <div className={`flex flex-col gap-1 rounded-md p-3 border ${run.failure ? 'border-red-500/50 bg-red-500/10' : 'border-blue-500/50 bg-blue-500/10'}`}>
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-semibold text-gray-200">
+              {run.failure
+                ? `"${run.name}" stopped at step ${run.current + 1} of ${run.steps.length}`
+                : isRunning
+                ? `Running "${run.name}": step ${run.current + 1} of ${run.steps.length}`
+                : `"${run.name}" finished`}
+            </span>
+            {!isRunning && <button onClick={onDismissRun} className="text-xs text-gray-400 hover:text-white transition-colors">Dismiss</button>}
+          </div>
+          {run.steps.map((step, index) => {
+            const status = stepStatus(run, index);
+            return (
+              <div key={index} className="flex items-center gap-2 text-sm">
+                <span className={`w-4 text-center font-bold ${status.className}`}>{status.icon}</span>
+                <span className="text-gray-300 truncate">{describeMacroStep(step)}</span>
+              </div>
+            );
+          })}
+          {run.failure && (
+            <p className="text-sm text-red-300 mt-1">{run.failure} The steps that finished are kept in the history.</p>
+          )}
+        </div>
+      )}
+
+      {macros.length === 0 && !isRecording && (
+        <p className="text-sm text-gray-500">Record the steps of an edit to repeat them on other photos.</p>
+      )}
+      {macros.map(macro => (
+        <div key={macro.id} className="flex items-start gap-2 bg-black/20 rounded-md p-2">
+          <div className="flex-grow min-w-0">
+            <p className="text-sm font-semibold text-gray-200 truncate">{macro.name}</p>
+            <p className="text-xs text-gray-500 truncate" title={macro.steps.map(describeMacroStep).join('\n')}>
+              {macro.steps.length} step{macro.steps.length === 1 ? '' : 's'}: {macro.steps.map(describeMacroStep).join(' → ')}
+            </p>
+          </div>
+          <button onClick={() => onRun(macro)} disabled={disabled} className={smallButton}>Run</button>
+          <button onClick={() => deleteMacro(macro.id)} disabled={disabled} className={`${smallButton} hover:text-red-400`} title="Delete">✕</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MacroPanel;
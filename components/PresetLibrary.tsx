@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import {
+  Preset,
+  PresetKind,
+  getPresets,
+  getPresetsByKind,
+  subscribePresets,
+  addPreset,
+  updatePreset,
+  deletePreset,
+  movePreset,
+  restoreBuiltInPresets,
+  exportPresets,
+  importPresets,
+} from '../services/presetStore';
+
+/**
+ * Returns the presets for one tool, updating whenever the library changes.
+ */
+export const usePresets = (kind: PresetKind): Preset[] => {
+  const [presets, setPresets] = useState(getPresets);
+  useEffect(() => subscribePresets(setPresets), []);
+  return getPresetsByKind(presets, kind);
+};
+
+const parseTags = (text: string) => text.split(',');
+
+// A text field that saves on blur or Enter, so a half-typed name or tag list is not stored
+const DraftInput: React.FC<{ value: string, onCommit: (value: string) => void, placeholder: string, disabled: boolean, className?: string }> = ({ value, onCommit, placeholder, disabled, className = '' }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      placeholder={placeholder}
+      disabled={disabled}
+      className={`min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50 ${className}`}
+    />
+  );
+};
+
+interface PresetLibraryProps {
+  kind: PresetKind;
+  selectedPrompt: string | null;
+  onSelect: (prompt: string) => void;
+  // The prompt typed by the user, which can be saved as a new preset
+  currentPrompt: string;
+  disabled: boolean;
+}
+
+const smallButton = 'text-sm font-semibold text-gray-200 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const PresetLibrary: React.FC<PresetLibraryProps> = ({ kind, selectedPrompt, onSelect, currentPrompt, disabled }) => {
+  const presets = usePresets(kind);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [isManaging, setIsManaging] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newTags, setNewTags] = useState('');
+  const [message, setMessage] = useState<{ text: string, isError: boolean } | null>(null);
+
+  const tags = Array.from(new Set(presets.flatMap(preset => preset.tags))).sort();
+  const shown = activeTag ? presets.filter(preset => preset.tags.includes(activeTag)) : presets;
+
+  // A tag disappears when its last preset is re-tagged or deleted
+  useEffect(() => {
+    if (activeTag && !tags.includes(activeTag)) setActiveTag(null);
+  }, [activeTag, tags.join(',')]);
+
+  const handleSave = () => {
+    if (!newName.trim() || !currentPrompt.trim()) return;
+    addPreset(kind, newName, currentPrompt, parseTags(newTags));
+    setIsSaving(false);
+    setNewName('');
+    setNewTags('');
+    setMessage({ text: `Saved "${newName.trim()}".`, isError: false });
+  };
+
+  const handleExport = () => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([exportPresets()], { type: 'application/json' }));
+    link.download = 'pixshop-presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow importing the same file again
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = importPresets(await file.text());
+      setMessage({ text: count > 0 ? `Imported ${count} preset${count === 1 ? '' : 's'}.` : 'All of these presets are already in the library.', isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Could not read the preset file.', isError: true });
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-3">
+      {tags.length > 0 && !isManaging && (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          {[null, ...tags].map(tag => (
+            <button
+              key={tag ?? 'all'}
+              onClick={() => setActiveTag(tag)}
+              className={`px-2 py-1 rounded-full transition-colors ${activeTag === tag ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+            >
+              {tag ?? 'All'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isManaging ? (
+        // Reordering works on the whole list, so the tag filter does not apply here
+        <div className="flex flex-col gap-2">
+          {presets.map((preset, index) => (
+            <div key={preset.id} className="flex items-center gap-2">
+              <DraftInput value={preset.name} onCommit={(name) => name.trim() && updatePreset(preset.id, { name: name.trim() })} placeholder="Name" disabled={disabled} className="w-1/3" />
+              <DraftInput value={preset.tags.join(', ')} onCommit={(text) => updatePreset(preset.id, { tags: parseTags(text) })} placeholder="Tags, comma separated" disabled={disabled} className="flex-grow" />
+              <button onClick={() => movePreset(preset.id, -1)} disabled={disabled || index === 0} className={smallButton} title="Move up">↑</button>
+              <button onClick={() => movePreset(preset.id, 1)} disabled={disabled || index === presets.length - 1} className={smallButton} title="Move down">↓</button>
+              <button onClick={() => deletePreset(preset.id)} disabled={disabled} className={`${smallButton} hover:text-red-400`} title={preset.builtIn ? 'Delete (can be restored)' : 'Delete'}>✕</button>
+            </div>
+          ))}
+          {presets.length === 0 && <p className="text-sm text-gray-500 text-center">No presets yet.</p>}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {shown.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => onSelect(preset.prompt)}
+              disabled={disabled}
+              title={preset.prompt}
+              className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed truncate ${selectedPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isSaving && (
+        <form onSubmit={(e) => { e.preventDefault(); handleSave(); }} className="flex flex-wrap items-center gap-2 animate-fade-in">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Preset name"
+            autoFocus
+            className="flex-grow min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <input
+            type="text"
+            value={newTags}
+            onChange={(e) => setNewTags(e.target.value)}
+            placeholder="Tags, comma separated"
+            className="flex-grow min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <button type="submit" disabled={!newName.trim()} className={smallButton}>Save</button>
+          <button type="button" onClick={() => setIsSaving(false)} className={smallButton}>Cancel</button>
+        </form>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {!isSaving && (
+          <button onClick={() => { setIsSaving(true); setMessage(null); }} disabled={disabled || !currentPrompt.trim()} className={smallButton} title={currentPrompt.trim() ? undefined : 'Type a prompt first'}>
+            Save Prompt as Preset
+          </button>
+        )}
+        <button onClick={() => setIsManaging(current => !current)} disabled={disabled} className={smallButton}>
+          {isManaging ? 'Done' : 'Manage'}
+        </button>
+        {isManaging && (
+          <button onClick={restoreBuiltInPresets} disabled={disabled} className={smallButton}>Restore Built-ins</button>
+        )}
+        <label className={`${smallButton} ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+          Import
+          <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} disabled={disabled} />
+        </label>
+        <button onClick={handleExport} className={smallButton} title="Download every preset as JSON to share">Export</button>
+      </div>
+      {message && <p className={`text-sm text-center ${message.isError ? 'text-red-400' : 'text-gray-400'}`}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default PresetLibrary;
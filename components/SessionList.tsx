@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { SessionSummary, StorageUsage } from '../services/sessionStore';
+import { formatBytes } from '../services/format';
+
+interface SessionListProps {
+  sessions: SessionSummary[];
+  storageUsage?: StorageUsage;
+  onResume: (id: string) => void;
+  onDelete: (id: string) => void;
+  onDeleteAll: () => void;
+}
+
+const SessionList: React.FC<SessionListProps> = ({ sessions, storageUsage, onResume, onDelete, onDeleteAll }) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    sessions.forEach(session => {
+      if (session.thumbnail) urls[session.id] = URL.createObjectURL(session.thumbnail);
+    });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [sessions]);
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-4xl bg-gray-800/50 border border-gray-700 rounded-xl p-6 backdrop-blur-sm text-left animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-gray-100">Resume a Session</h3>
+        <button
+          onClick={onDeleteAll}
+          className="text-sm text-gray-400 hover:text-red-300 transition-colors"
+        >
+          Delete all
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {sessions.map(session => (
+          <div key={session.id} className="flex items-center gap-3 bg-black/20 border border-gray-700/50 rounded-lg p-3">
+            <div className="w-16 h-16 flex-shrink-0 rounded-md overflow-hidden bg-gray-700">
+              {thumbnails[session.id] && (
+                <img src={thumbnails[session.id]} alt={session.name} className="w-full h-full object-cover" />
+              )}
+            </div>
+            <div className="flex-grow min-w-0">
+              <p className="text-gray-200 font-semibold truncate">{session.name}</p>
+              <p className="text-xs text-gray-500">
+                {new Date(session.updatedAt).toLocaleString()} · {session.stepCount} {session.stepCount === 1 ? 'step' : 'steps'} · {formatBytes(session.bytes)}
+              </p>
+            </div>
+            <div className="flex flex-col gap-1">
+              <button
+                onClick={() => onResume(session.id)}
+                className="text-sm font-semibold text-white bg-blue-600 hover:bg-blue-500 px-3 py-1 rounded-md transition-colors"
+              >
+                Resume
+              </button>
+              <button
+                onClick={() => onDelete(session.id)}
+                className="text-xs text-gray-400 hover:text-red-300 px-3 py-1 transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {storageUsage?.usage !== undefined && (
+        <p className="mt-4 text-xs text-gray-500">
+          Using {formatBytes(storageUsage.usage)}
+          {storageUsage.quota !== undefined && ` of ${formatBytes(storageUsage.quota)}`} of browser storage.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SessionList;
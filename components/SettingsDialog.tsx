@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { getSettings, updateSettings, subscribeSettings, Settings, MockFailure, ProviderMode } from '../services/settings';
+import { getApiKeys, setApiKey, clearApiKeys, subscribeApiKeys, ApiKeys, ApiKeyProvider } from '../services/apiKeyStore';
+import { getServerConfig, subscribeServerConfig, ServerConfig } from '../services/serverConfig';
+
+interface SettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const failureOptions: { value: MockFailure, label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'refusal', label: 'Safety refusal' },
+  { value: 'rate-limited', label: 'Rate limited' },
+  { value: 'timeout', label: 'Timeout' },
+  { value: 'network', label: 'Network error' },
+  { value: 'invalid-output', label: 'Invalid output' },
+  { value: 'auth-missing', label: 'Missing API key' },
+];
+
+const keyFields: { provider: ApiKeyProvider, label: string, placeholder: string }[] = [
+  { provider: 'replicate', label: 'Replicate API token', placeholder: 'r8_...' },
+  { provider: 'openrouter', label: 'OpenRouter API key', placeholder: 'sk-or-...' },
+];
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
+  const [settings, setSettings] = useState<Settings>(getSettings());
+  const [storedKeys, setStoredKeys] = useState<ApiKeys>(getApiKeys());
+  const [keyDrafts, setKeyDrafts] = useState<ApiKeys>({});
+  const [serverConfig, setServerConfig] = useState<ServerConfig | null>(getServerConfig());
+
+  useEffect(() => subscribeSettings(setSettings), []);
+  useEffect(() => subscribeApiKeys(setStoredKeys), []);
+  useEffect(() => subscribeServerConfig(setServerConfig), []);
+
+  if (!isOpen) return null;
+
+  const handleModeChange = (providerMode: ProviderMode) => {
+    updateSettings({ providerMode });
+  };
+
+  const handleSaveKey = (provider: ApiKeyProvider) => {
+    setApiKey(provider, keyDrafts[provider] ?? '');
+    setKeyDrafts(prev => ({ ...prev, [provider]: undefined }));
+  };
+
+  const handleClearKeys = () => {
+    clearApiKeys();
+    setKeyDrafts({});
+  };
+
+  const hasAnyKey = Object.keys(storedKeys).length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-gray-800 border border-gray-700 rounded-lg p-6 flex flex-col gap-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-100">Settings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close settings">×</button>
+        </div>
+
+        <section className="flex flex-col gap-3">
+          <h3 className="text-sm font-semibold text-gray-300">Image Provider</h3>
+          <div className="flex gap-2">
+            {([['auto', 'Online providers'], ['mock', 'Offline mock']] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => handleModeChange(mode)}
+                className={`flex-1 py-2 px-4 rounded-md font-semibold transition-all duration-200 ${
+                  settings.providerMode === mode
+                    ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white'
+                    : 'bg-white/10 hover:bg-white/20 text-gray-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            The offline mock applies deterministic local transforms instead of calling an AI model. Use it to develop and test without API keys.
+          </p>
+        </section>
+
+        {settings.providerMode === 'auto' && (
+          <section className="flex flex-col gap-4 animate-fade-in">
+            <h3 className="text-sm font-semibold text-gray-300">API Keys</h3>
+            {keyFields.map(({ provider, label, placeholder }) => (
+              <div key={provider} className="flex flex-col gap-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-400">{label}</span>
+                  {serverConfig?.providers[provider] ? (
+                    <span className="text-green-400">Provided by server</span>
+                  ) : (
+                    <span className={storedKeys[provider] ? 'text-green-400' : 'text-amber-300'}>
+                      {storedKeys[provider] ? 'Configured' : 'Not configured'}
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="password"
+                    autoComplete="off"
+                    value={keyDrafts[provider] ?? ''}
+                    onChange={(e) => setKeyDrafts(prev => ({ ...prev, [provider]: e.target.value }))}
+                    placeholder={storedKeys[provider] ? '•••••••• (saved)' : placeholder}
+                    className="flex-grow bg-gray-900 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  />
+                  <button
+                    onClick={() => handleSaveKey(provider)}
+                    disabled={keyDrafts[provider] === undefined}
+                    className="bg-blue-600 hover:bg-blue-500 text-white font-semibold px-4 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              Keys are stored only in this browser. They are passed through the Pixshop server, which uses its own key instead when it has one. Saving an empty field removes that key.
+            </p>
+            <button
+              onClick={handleClearKeys}
+              disabled={!hasAnyKey}
+              className="self-start text-sm text-red-300 hover:text-red-200 disabled:text-gray-600 disabled:cursor-not-allowed"
+            >
+              Clear all saved keys
+            </button>
+          </section>
+        )}
+
+        {settings.providerMode === 'mock' && (
+          <section className="flex flex-col gap-4 animate-fade-in">
+            <h3 className="text-sm font-semibold text-gray-300">Mock Simulation</h3>
+            <label className="flex flex-col gap-2 text-sm text-gray-400">
+              <span>Latency: {settings.mock.latencyMs} ms</span>
+              <input
+                type="range"
+                min={0}
+                max={10000}
+                step={100}
+                value={settings.mock.latencyMs}
+                onChange={(e) => updateSettings({ mock: { ...settings.mock, latencyMs: Number(e.target.value) } })}
+              />
+            </label>
+            <label className="flex flex-col gap-2 text-sm text-gray-400">
+              <span>Simulated failure</span>
+              <select
+                value={settings.mock.failure}
+                onChange={(e) => updateSettings({ mock: { ...settings.mock, failure: e.target.value as MockFailure } })}
+                className="bg-gray-900 border border-gray-600 text-gray-200 rounded-md p-2"
+              >
+                {failureOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-gray-500">
+              A single request can also fail on demand by adding a token such as <code>[mock:refusal]</code> or <code>[mock:timeout]</code> to its prompt.
+            </p>
+          </section>
+        )}
+
+        <section className="flex flex-col gap-3">
+          <h3 className="text-sm font-semibold text-gray-300">Output</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.losslessOutput}
+              onChange={(e) => updateSettings({ losslessOutput: e.target.checked })}
+            />
+            Lossless output (PNG)
+          </label>
+          <p className="text-xs text-gray-500">
+            Results are always resized to match the source image. PNG output avoids compounding JPEG artifacts over a chain of edits, at the cost of larger files.
+          </p>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
@@ -5,39 +5,37 @@
 
 import React, { useState } from 'react';
 import { UploadIcon, MagicWandIcon, PaletteIcon, SunIcon } from './icons';
+import SessionList from './SessionList';
+import { SessionSummary, StorageUsage } from '../services/sessionStore';
+import { PROJECT_EXTENSION } from '../services/projectFile';
+import { usePresets } from './PresetLibrary';
 
 interface StartScreenProps {
   onFileSelect: (files: FileList | null) => void;
   onPromptSelect?: (prompt: string, mode: 'retouch' | 'filter' | 'adjust') => void;
+  sessions?: SessionSummary[];
+  storageUsage?: StorageUsage;
+  onResumeSession?: (id: string) => void;
+  onDeleteSession?: (id: string) => void;
+  onDeleteAllSessions?: () => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onPromptSelect }) => {
+const StartScreen: React.FC<StartScreenProps> = ({
+  onFileSelect,
+  onPromptSelect,
+  sessions = [],
+  storageUsage,
+  onResumeSession,
+  onDeleteSession,
+  onDeleteAllSessions,
+}) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [selectedPreset, setSelectedPreset] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
   const [selectedMode, setSelectedMode] = useState<'retouch' | 'filter' | 'adjust'>('retouch');
 
-  // Recommended prompts organized by category
-  const promptCategories = {
-    retouch: [
-      { name: '美白肌肤', prompt: '美白皮肤，让肌肤看起来更加光滑白皙' },
-      { name: '去除痘痘', prompt: '去除脸部的痘痘和瑕疵，让皮肤更加干净' },
-      { name: '美化妆容', prompt: '增强妆容效果，让眼妆和唇妆更加精致' },
-      { name: '修饰身材', prompt: '适度优化身材线条，让身形更加协调' }
-    ],
-    filter: [
-      { name: '复古胶片', prompt: '应用复古胶片滤镜，带有颗粒感和温暖色调' },
-      { name: '赛博朋克', prompt: '应用赛博朋克风格滤镜，带有霓虹灯效果和未来感' },
-      { name: '水彩画风', prompt: '将图像转换为水彩画风格，带有柔和的笔触效果' },
-      { name: '素描效果', prompt: '将图像转换为素描风格，保留主要线条和阴影' }
-    ],
-    adjust: [
-      { name: '背景虚化', prompt: '应用景深效果，让背景模糊突出主体' },
-      { name: '工作室打光', prompt: '添加专业的工作室灯光效果' },
-      { name: '暖色调', prompt: '调整图像为温暖的金色调，营造温馨氛围' },
-      { name: '黑白艺术', prompt: '转换为高对比度的黑白艺术效果' }
-    ]
-  };
+  // Recommended prompts come from the same preset library as the editor panels
+  const presets = usePresets(selectedMode);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     // Pass selected prompt to parent if available
@@ -93,10 +91,24 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onPromptSelect
                 <UploadIcon className="w-6 h-6 mr-3 transition-transform duration-500 ease-in-out group-hover:rotate-[360deg] group-hover:scale-110" />
                 Upload an Image
             </label>
-            <input id="image-upload-start" type="file" className="hidden" accept="image/*" onChange={handleFileChange} />
-            <p className="text-sm text-gray-500">or drag and drop a file</p>
+            <input id="image-upload-start" type="file" className="hidden" accept="image/*" multiple onChange={handleFileChange} />
+            <p className="text-sm text-gray-500">
+              or drag and drop a file (select several to edit them as a batch), or{' '}
+              <label htmlFor="project-open-start" className="text-blue-400 hover:text-blue-300 underline cursor-pointer">open a {PROJECT_EXTENSION} project</label>
+            </p>
+            <input id="project-open-start" type="file" className="hidden" accept={PROJECT_EXTENSION} onChange={(e) => onFileSelect(e.target.files)} />
         </div>
 
+        {onResumeSession && onDeleteSession && onDeleteAllSessions && (
+          <SessionList
+            sessions={sessions}
+            storageUsage={storageUsage}
+            onResume={onResumeSession}
+            onDelete={onDeleteSession}
+            onDeleteAll={onDeleteAllSessions}
+          />
+        )}
+
         {/* Prompt Selection Section */}
         <div className="mt-12 w-full max-w-4xl">
           <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-6 backdrop-blur-sm">
@@ -127,9 +139,9 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onPromptSelect
 
             {/* Preset Prompts */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
-              {promptCategories[selectedMode].map((preset) => (
+              {presets.map((preset) => (
                 <button
-                  key={preset.name}
+                  key={preset.id}
                   onClick={() => handlePresetClick(preset.prompt)}
                   className={`text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-lg transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-sm ${
                     selectedPreset === preset.prompt 
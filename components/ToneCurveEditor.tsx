@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState, useMemo } from 'react';
+import { CurvePoint } from '../types';
+import { buildCurveLut } from '../services/localAdjustments';
+
+interface ToneCurveEditorProps {
+  points: CurvePoint[];
+  onChange: (points: CurvePoint[]) => void;
+  disabled?: boolean;
+}
+
+// Points closer than this (in curve units) are not allowed to cross each other
+const MIN_GAP = 4;
+
+const ToneCurveEditor: React.FC<ToneCurveEditorProps> = ({ points, onChange, disabled = false }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const path = useMemo(() => {
+    const lut = buildCurveLut(points);
+    return Array.from(lut, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${255 - y}`).join(' ');
+  }, [points]);
+
+  const toCurvePoint = (e: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = Math.round((e.clientX - rect.left) / rect.width * 255);
+    const y = Math.round(255 - (e.clientY - rect.top) / rect.height * 255);
+    return { x: Math.min(255, Math.max(0, x)), y: Math.min(255, Math.max(0, y)) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCurvePoint(e);
+    const nearest = points.findIndex(p => Math.abs(p.x - point.x) < 10 && Math.abs(p.y - point.y) < 10);
+    if (nearest >= 0) {
+      setDragIndex(nearest);
+      return;
+    }
+    if (points.some(p => Math.abs(p.x - point.x) < MIN_GAP)) return;
+    const next = [...points, point].sort((a, b) => a.x - b.x);
+    onChange(next);
+    setDragIndex(next.indexOf(point));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragIndex === null) return;
+    const point = toCurvePoint(e);
+    // End points stay at the edges; inner points stay between their neighbours
+    const minX = dragIndex === 0 ? 0 : points[dragIndex - 1].x + MIN_GAP;
+    const maxX = dragIndex === points.length - 1 ? 255 : points[dragIndex + 1].x - MIN_GAP;
+    const x = dragIndex === 0 ? 0 : dragIndex === points.length - 1 ? 255 : Math.min(maxX, Math.max(minX, point.x));
+    onChange(points.map((p, i) => i === dragIndex ? { x, y: point.y } : p));
+  };
+
+  const handleDoubleClick = (index: number) => {
+    if (disabled || index === 0 || index === points.length - 1) return;
+    onChange(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox="-4 -4 263 263"
+      className={`w-full max-w-[220px] aspect-square bg-gray-900/60 border border-gray-700 rounded-md touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragIndex(null)}
+      onPointerCancel={() => setDragIndex(null)}
+    >
+      {[64, 128, 192].map(v => (
+        <g key={v} className="stroke-gray-700" strokeWidth={1}>
+          <line x1={v} y1={0} x2={v} y2={255} />
+          <line x1={0} y1={v} x2={255} y2={v} />
+        </g>
+      ))}
+      <line x1={0} y1={255} x2={255} y2={0} className="stroke-gray-600" strokeDasharray="4 4" strokeWidth={1} />
+      <path d={path} fill="none" className="stroke-blue-400" strokeWidth={2} />
+      {points.map((point, i) => (
+        <circle
+          key={i}
+          cx={point.x}
+          cy={255 - point.y}
+          r={6}
+          className={i === dragIndex ? 'fill-blue-400' : 'fill-white'}
+          onDoubleClick={() => handleDoubleClick(i)}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default ToneCurveEditor;
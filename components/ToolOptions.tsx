@@ -2,3 +2,73 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React from 'react';
+import { BrushSettings } from '../types';
+
+interface ToolOptionsProps {
+  brush: BrushSettings;
+  onBrushChange: (brush: BrushSettings) => void;
+  onClearMask: () => void;
+  hasMask: boolean;
+  disabled?: boolean;
+}
+
+const ToolOptions: React.FC<ToolOptionsProps> = ({ brush, onBrushChange, onClearMask, hasMask, disabled = false }) => {
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-3 flex flex-wrap items-center justify-center gap-4 animate-fade-in">
+      <div className="flex items-center gap-2">
+        {(['brush', 'eraser'] as const).map(tool => (
+          <button
+            key={tool}
+            onClick={() => onBrushChange({ ...brush, tool })}
+            disabled={disabled}
+            className={`capitalize px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+              brush.tool === tool
+              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+              : 'bg-white/10 hover:bg-white/20 text-gray-200'
+            }`}
+          >
+            {tool}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-400">
+        Size
+        <input
+          type="range"
+          min={4}
+          max={200}
+          value={brush.size}
+          onChange={(e) => onBrushChange({ ...brush, size: Number(e.target.value) })}
+          disabled={disabled}
+        />
+        <span className="w-10 text-gray-300">{brush.size}px</span>
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-gray-400">
+        Feather
+        <input
+          type="range"
+          min={0}
+          max={50}
+          value={brush.feather}
+          onChange={(e) => onBrushChange({ ...brush, feather: Number(e.target.value) })}
+          disabled={disabled}
+        />
+        <span className="w-10 text-gray-300">{brush.feather}px</span>
+      </label>
+
+      <button
+        onClick={onClearMask}
+        disabled={disabled || !hasMask}
+        className="px-4 py-2 rounded-md text-sm font-semibold bg-white/10 hover:bg-white/20 text-gray-200 transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Clear Mask
+      </button>
+    </div>
+  );
+};
+
+export default ToolOptions;
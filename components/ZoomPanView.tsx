@@ -0,0 +1,239 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { clampView, fitView, getFitSize, zoomAt, ViewTransform } from '../services/viewport';
+
+interface ZoomPanViewProps {
+  // Natural size of the image; the content is laid out at exactly this aspect ratio
+  imageWidth?: number;
+  imageHeight?: number;
+  // Whether a plain drag pans. When the content handles drags itself (cropping, painting
+  // a mask), panning needs the space bar, the middle button or two fingers instead.
+  dragToPan: boolean;
+  children: React.ReactNode;
+}
+
+// The same limit as the max-h-[60vh] used on images elsewhere
+const MAX_HEIGHT_RATIO = 0.6;
+const MAX_ZOOM = 8;
+const BUTTON_ZOOM_STEP = 1.5;
+
+type Point = { x: number, y: number };
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const ZoomPanView: React.FC<ZoomPanViewProps> = ({ imageWidth, imageHeight, dragToPan, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [bounds, setBounds] = useState({ width: 0, maxHeight: window.innerHeight * MAX_HEIGHT_RATIO });
+  const [view, setView] = useState<ViewTransform>(fitView);
+  const [isSpaceDown, setIsSpaceDown] = useState(false);
+  const isHoveredRef = useRef(false);
+  const panRef = useRef<Point | null>(null);
+  const touchesRef = useRef(new Map<number, Point>());
+  const pinchRef = useRef<{ distance: number, x: number, y: number } | null>(null);
+  // A pan ends with a click on whatever is under the pointer, which must not set a hotspot
+  const suppressClickRef = useRef(false);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => {
+      setBounds({ width: container.clientWidth, maxHeight: window.innerHeight * MAX_HEIGHT_RATIO });
+    });
+    observer.observe(container);
+    const handleResize = () => setBounds(current => ({ ...current, maxHeight: window.innerHeight * MAX_HEIGHT_RATIO }));
+    window.addEventListener('resize', handleResize);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', handleResize);
+    };
+  }, []);
+
+  // A different image size (after a crop or rotation) starts again from the fitted view
+  useEffect(() => {
+    setView(fitView);
+  }, [imageWidth, imageHeight]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || !isHoveredRef.current || isEditable(e.target)) return;
+      e.preventDefault();
+      setIsSpaceDown(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceDown(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  const size = imageWidth && imageHeight && bounds.width
+    ? getFitSize(imageWidth, imageHeight, bounds.width, bounds.maxHeight)
+    : null;
+  // The scale at which one image pixel is one screen pixel
+  const actualScale = size && imageWidth ? imageWidth / size.width : 1;
+  // Small images are enlarged to fit, so reaching 100% can mean zooming out
+  const minScale = Math.min(1, actualScale);
+  const maxScale = Math.max(MAX_ZOOM, actualScale * 4);
+  const limitScale = (scale: number) => Math.min(maxScale, Math.max(minScale, scale));
+
+  const clamp = (current: ViewTransform) =>
+    size ? clampView(current, size.width, size.height, bounds.width, size.height) : fitView;
+  const shown = clamp(view);
+
+  const zoomTo = (getScale: (scale: number) => number, px: number, py: number) => {
+    setView(current => {
+      const clamped = clamp(current);
+      return clamp(zoomAt(clamped, limitScale(getScale(clamped.scale)), px, py));
+    });
+  };
+  const zoomToCentre = (getScale: (scale: number) => number) => zoomTo(getScale, bounds.width / 2, (size?.height ?? 0) / 2);
+  const panBy = (dx: number, dy: number) => {
+    setView(current => {
+      const clamped = clamp(current);
+      return clamp({ ...clamped, x: clamped.x + dx, y: clamped.y + dy });
+    });
+  };
+
+  // Wheel listeners must be non-passive to stop the page from scrolling.
+  // Re-attached on every render so the handler sees the current size.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !size) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomTo(scale => scale * Math.exp(-e.deltaY * 0.002), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  });
+
+  const toLocal = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  const getPinch = () => {
+    const [a, b]: Point[] = Array.from(touchesRef.current.values());
+    const centre = toLocal((a.x + b.x) / 2, (a.y + b.y) / 2);
+    return { distance: Math.hypot(a.x - b.x, a.y - b.y), ...centre };
+  };
+
+  // These run in the capture phase so a pan or pinch never reaches the crop or mask underneath
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!size || (e.target as HTMLElement).closest('[data-zoom-controls]')) return;
+    if (e.pointerType === 'touch') {
+      touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touchesRef.current.size === 2) {
+        panRef.current = null;
+        pinchRef.current = getPinch();
+        suppressClickRef.current = true;
+        e.stopPropagation();
+        return;
+      }
+    }
+    const wantsPan = e.button === 1 || (e.button === 0 && (isSpaceDown || dragToPan));
+    if (!wantsPan) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panRef.current = { x: e.clientX, y: e.clientY };
+    suppressClickRef.current = !dragToPan;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (touchesRef.current.has(e.pointerId)) {
+      touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    }
+    const pinch = pinchRef.current;
+    if (pinch && touchesRef.current.size >= 2) {
+      e.stopPropagation();
+      const next = getPinch();
+      pinchRef.current = next;
+      setView(current => {
+        const clamped = clamp(current);
+        const scale = limitScale(clamped.scale * next.distance / pinch.distance);
+        const zoomed = zoomAt(clamped, scale, pinch.x, pinch.y);
+        return clamp({ ...zoomed, x: zoomed.x + next.x - pinch.x, y: zoomed.y + next.y - pinch.y });
+      });
+      return;
+    }
+    const pan = panRef.current;
+    if (!pan) return;
+    e.stopPropagation();
+    const dx = e.clientX - pan.x;
+    const dy = e.clientY - pan.y;
+    if (Math.abs(dx) + Math.abs(dy) > 3) suppressClickRef.current = true;
+    panRef.current = { x: e.clientX, y: e.clientY };
+    panBy(dx, dy);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    touchesRef.current.delete(e.pointerId);
+    if (touchesRef.current.size < 2) pinchRef.current = null;
+    panRef.current = null;
+  };
+
+  const isZoomed = shown.scale !== 1;
+  const controlButton = 'px-2 py-1 rounded hover:bg-white/20 disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full overflow-hidden isolate touch-none ${dragToPan && shown.scale > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+      style={size ? { height: size.height } : undefined}
+      onPointerEnter={() => { isHoveredRef.current = true; }}
+      onPointerLeave={() => { isHoveredRef.current = false; }}
+      onPointerDownCapture={handlePointerDown}
+      onPointerMoveCapture={handlePointerMove}
+      onPointerUpCapture={handlePointerUp}
+      onPointerCancelCapture={handlePointerUp}
+      onMouseDown={(e) => { if (e.button === 1) e.preventDefault(); }}
+      onClickCapture={(e) => {
+        if (!suppressClickRef.current) return;
+        suppressClickRef.current = false;
+        e.stopPropagation();
+      }}
+    >
+      {/* Until the size is known, the content is laid out as it would be without zoom */}
+      {!size ? children : (
+        <>
+          {/* Everything drawn over the image lives inside this one transform, so it stays registered */}
+          <div
+            className="absolute top-0 left-0"
+            style={{
+              width: size.width,
+              height: size.height,
+              transform: `translate(${shown.x}px, ${shown.y}px) scale(${shown.scale})`,
+              transformOrigin: '0 0',
+              '--zoom': shown.scale,
+            } as React.CSSProperties}
+          >
+            {children}
+          </div>
+
+          {isSpaceDown && <div className="absolute inset-0 z-40 cursor-grab active:cursor-grabbing" />}
+
+          <div data-zoom-controls className="absolute bottom-2 right-2 z-50 flex items-center gap-1 bg-black/60 rounded-md p-1 text-xs font-semibold text-gray-200 backdrop-blur-sm">
+            <button onClick={() => zoomToCentre(scale => scale / BUTTON_ZOOM_STEP)} disabled={shown.scale <= minScale} className={controlButton} title="Zoom out">−</button>
+            <span className="w-12 text-center" title="Shown size relative to the image's pixels">{Math.round(shown.scale / actualScale * 100)}%</span>
+            <button onClick={() => zoomToCentre(scale => scale * BUTTON_ZOOM_STEP)} disabled={shown.scale >= maxScale} className={controlButton} title="Zoom in">+</button>
+            <button onClick={() => setView(fitView)} disabled={!isZoomed} className={controlButton} title="Fit the whole image">Fit</button>
+            <button onClick={() => zoomToCentre(() => actualScale)} className={controlButton} title="One image pixel per screen pixel">100%</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ZoomPanView;
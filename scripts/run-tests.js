@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Runs the test suite: `npm test`
+// The server tests are plain JavaScript. The TypeScript tests next to the services are
+// bundled with esbuild into a temporary directory first, since Node cannot load them directly.
+
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const servicesDir = path.join(root, 'services');
+
+const typeScriptTests = fs.readdirSync(servicesDir)
+    .filter(name => name.endsWith('.test.ts'))
+    .map(name => path.join(servicesDir, name));
+
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pixshop-tests-'));
+try {
+    await build({
+        entryPoints: typeScriptTests,
+        outdir: outDir,
+        bundle: true,
+        platform: 'node',
+        format: 'esm',
+        logLevel: 'error',
+    });
+    const bundled = typeScriptTests.map(file => path.join(outDir, path.basename(file, '.ts') + '.js'));
+    const { status } = spawnSync(process.execPath, ['--test', path.join(root, 'server', 'index.test.js'), ...bundled], { stdio: 'inherit' });
+    process.exitCode = status ?? 1;
+} finally {
+    fs.rmSync(outDir, { recursive: true, force: true });
+}
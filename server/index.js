@@ -0,0 +1,416 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Production server: serves the built app and proxies provider calls.
+// Provider keys live only here; the browser never sees them. Uses Node built-ins only.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const MIME_TYPES = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2',
+};
+
+/**
+ * @typedef {Object} ServerOptions
+ * @property {string} [distDir] Directory with the built app; static files are not served when omitted.
+ * @property {string} [replicateApiBase] Upstream Replicate API base URL.
+ * @property {string} [openRouterApiBase] Upstream OpenRouter API base URL.
+ * @property {string} [replicateModel] The only Replicate model predictions may be created for.
+ * @property {string} [replicateApiToken] Server-side Replicate token.
+ * @property {string} [openRouterApiKey] Server-side OpenRouter key.
+ * @property {string[]} [replicateOutputHosts] Hosts that generated images may be downloaded from.
+ * @property {number} [maxBodyBytes] Largest accepted request body.
+ * @property {number} [rateLimitWindowMs] Length of a rate limit window.
+ * @property {number} [rateLimitMax] Requests that start work (POST) allowed per client and window.
+ * @property {number} [pollRateLimitMax] Requests of any kind, including status polls and downloads, allowed per client and window.
+ * @property {boolean} [trustProxy] Use X-Forwarded-For to identify clients.
+ */
+
+/** @type {Required<Omit<ServerOptions, 'distDir' | 'replicateApiToken' | 'openRouterApiKey'>>} */
+const defaultOptions = {
+    replicateApiBase: 'https://api.replicate.com',
+    openRouterApiBase: 'https://openrouter.ai/api',
+    replicateModel: 'google/nano-banana',
+    replicateOutputHosts: ['replicate.delivery'],
+    maxBodyBytes: 25 * 1024 * 1024,
+    rateLimitWindowMs: 60 * 1000,
+    rateLimitMax: 60,
+    // A running prediction is polled about once a second
+    pollRateLimitMax: 600,
+    trustProxy: false,
+};
+
+/**
+ * Reads server options from environment variables.
+ * @param {Record<string, string | undefined>} env
+ * @returns {ServerOptions}
+ */
+export const optionsFromEnv = (env) => ({
+    replicateApiBase: env.REPLICATE_API_BASE || defaultOptions.replicateApiBase,
+    openRouterApiBase: env.OPENROUTER_API_BASE || defaultOptions.openRouterApiBase,
+    replicateModel: env.REPLICATE_MODEL || defaultOptions.replicateModel,
+    replicateApiToken: env.REPLICATE_API_TOKEN || undefined,
+    openRouterApiKey: env.OPENROUTER_API_KEY || undefined,
+    replicateOutputHosts: env.REPLICATE_OUTPUT_HOSTS ? env.REPLICATE_OUTPUT_HOSTS.split(',').map(h => h.trim()) : defaultOptions.replicateOutputHosts,
+    maxBodyBytes: env.MAX_BODY_BYTES ? Number(env.MAX_BODY_BYTES) : defaultOptions.maxBodyBytes,
+    rateLimitWindowMs: env.RATE_LIMIT_WINDOW_MS ? Number(env.RATE_LIMIT_WINDOW_MS) : defaultOptions.rateLimitWindowMs,
+    rateLimitMax: env.RATE_LIMIT_MAX ? Number(env.RATE_LIMIT_MAX) : defaultOptions.rateLimitMax,
+    pollRateLimitMax: env.POLL_RATE_LIMIT_MAX ? Number(env.POLL_RATE_LIMIT_MAX) : defaultOptions.pollRateLimitMax,
+    trustProxy: env.TRUST_PROXY === 'true',
+});
+
+class HttpError extends Error {
+    /**
+     * @param {number} status
+     * @param {string} message
+     * @param {number} [retryAfter] Seconds the client should wait before retrying
+     */
+    constructor(status, message, retryAfter) {
+        super(message);
+        this.status = status;
+        this.retryAfter = retryAfter;
+    }
+}
+
+/**
+ * @param {http.ServerResponse} res
+ * @param {number} status
+ * @param {unknown} body
+ * @param {Record<string, string>} [headers]
+ */
+const sendJson = (res, status, body, headers = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+/**
+ * Reads a request body, rejecting with 413 once it grows past the limit.
+ * @param {http.IncomingMessage} req
+ * @param {number} limit
+ * @returns {Promise<Buffer>}
+ */
+const readBody = (req, limit) => {
+    return new Promise((resolve, reject) => {
+        const declared = Number(req.headers['content-length'] || 0);
+        if (declared > limit) {
+            reject(new HttpError(413, `Request body exceeds ${limit} bytes`));
+            return;
+        }
+        const chunks = [];
+        let size = 0;
+        req.on('data', chunk => {
+            size += chunk.length;
+            if (size > limit) {
+                reject(new HttpError(413, `Request body exceeds ${limit} bytes`));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+};
+
+/**
+ * Fixed-window rate limiter keyed by client address.
+ * @param {number} windowMs
+ * @param {number} max
+ */
+const createRateLimiter = (windowMs, max) => {
+    /** @type {Map<string, { count: number, resetAt: number }>} */
+    const clients = new Map();
+
+    return {
+        /**
+         * Counts a request and returns how long the client must wait, or 0 if allowed.
+         * @param {string} clientId
+         * @returns {number}
+         */
+        hit(clientId) {
+            const now = Date.now();
+            // Drop expired windows so the map does not grow without bound
+            if (clients.size > 10000) {
+                for (const [id, entry] of clients) {
+                    if (entry.resetAt <= now) clients.delete(id);
+                }
+            }
+            const entry = clients.get(clientId);
+            if (!entry || entry.resetAt <= now) {
+                clients.set(clientId, { count: 1, resetAt: now + windowMs });
+                return 0;
+            }
+            entry.count++;
+            return entry.count > max ? entry.resetAt - now : 0;
+        },
+    };
+};
+
+/**
+ * @param {http.IncomingMessage} req
+ * @param {boolean} trustProxy
+ */
+const getClientId = (req, trustProxy) => {
+    if (trustProxy) {
+        const forwarded = req.headers['x-forwarded-for'];
+        const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+        if (first) return first;
+    }
+    return req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Forwards a request upstream and relays the response.
+ * @param {http.IncomingMessage} req
+ * @param {http.ServerResponse} res
+ * @param {string} url
+ * @param {Record<string, string>} headers
+ * @param {Buffer | undefined} body
+ */
+const forward = async (req, res, url, headers, body) => {
+    // Stop the upstream call when the browser goes away (e.g. a cancelled generation)
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+
+    const upstream = await fetch(url, {
+        method: req.method,
+        headers,
+        body: body && body.length > 0 ? body : undefined,
+        signal: controller.signal,
+    });
+
+    const responseHeaders = {};
+    for (const name of ['content-type', 'retry-after', 'cache-control']) {
+        const value = upstream.headers.get(name);
+        if (value) responseHeaders[name] = value;
+    }
+    const payload = Buffer.from(await upstream.arrayBuffer());
+    res.writeHead(upstream.status, responseHeaders);
+    res.end(payload);
+};
+
+/**
+ * Picks the key for an upstream call: the server-side key first, then a key the
+ * user supplied in the browser (sent as X-Provider-Key).
+ * @param {string | undefined} serverKey
+ * @param {http.IncomingMessage} req
+ * @param {string} provider
+ */
+const resolveKey = (serverKey, req, provider) => {
+    const userKey = req.headers['x-provider-key'];
+    const key = serverKey || (Array.isArray(userKey) ? userKey[0] : userKey);
+    if (!key) {
+        throw new HttpError(401, `No ${provider} API key is configured on the server or in the app settings`);
+    }
+    return key;
+};
+
+const PREDICTION_ID = '[A-Za-z0-9]+';
+
+/**
+ * Maps a proxied Replicate path to the upstream path, or returns null for calls the app does not make.
+ * Only creating a prediction for the configured model and reading or cancelling a prediction are allowed,
+ * so the server's token cannot be used for anything else.
+ * @param {string} method
+ * @param {string} pathname Path below /api/replicate
+ * @param {string} model
+ * @returns {string | null}
+ */
+const getReplicatePath = (method, pathname, model) => {
+    if (method === 'POST' && pathname === `/v1/models/${model}/predictions`) return pathname;
+    if (method === 'GET' && new RegExp(`^/v1/predictions/${PREDICTION_ID}$`).test(pathname)) return pathname;
+    if (method === 'POST' && new RegExp(`^/v1/predictions/${PREDICTION_ID}/cancel$`).test(pathname)) return pathname;
+    return null;
+};
+
+/**
+ * @param {string} filePath
+ * @param {http.ServerResponse} res
+ */
+const sendFile = (filePath, res) => {
+    const type = MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+    const stream = fs.createReadStream(filePath);
+    // Headers wait for the file to open, so a missing file (e.g. no build yet) can still get a 404
+    stream.on('open', () => {
+        res.writeHead(200, { 'Content-Type': type });
+        stream.pipe(res);
+    });
+    stream.on('error', error => {
+        if (res.headersSent) {
+            res.destroy();
+            return;
+        }
+        if (error.code === 'ENOENT') {
+            sendJson(res, 404, { error: 'Not found' });
+        } else {
+            console.error('Could not read static file:', error);
+            sendJson(res, 500, { error: 'Internal server error' });
+        }
+    });
+};
+
+/**
+ * Creates the request handler. Calls `next` for requests it does not handle,
+ * so it can also be mounted as middleware in the Vite dev server.
+ * @param {ServerOptions} [options]
+ * @returns {(req: http.IncomingMessage, res: http.ServerResponse, next?: () => void) => Promise<void>}
+ */
+export const createRequestHandler = (options = {}) => {
+    const config = { ...defaultOptions, ...options };
+    const limiter = createRateLimiter(config.rateLimitWindowMs, config.rateLimitMax);
+    const pollLimiter = createRateLimiter(config.rateLimitWindowMs, config.pollRateLimitMax);
+    const distDir = config.distDir ? path.resolve(config.distDir) : undefined;
+
+    const handleApi = async (req, res, url) => {
+        if (url.pathname === '/api/config' && req.method === 'GET') {
+            sendJson(res, 200, {
+                providers: {
+                    replicate: !!config.replicateApiToken,
+                    openrouter: !!config.openRouterApiKey,
+                },
+            });
+            return;
+        }
+
+        // Every call counts against the general limit; calls that start work also count against the stricter one
+        const clientId = getClientId(req, config.trustProxy);
+        const wait = Math.max(pollLimiter.hit(clientId), req.method === 'POST' ? limiter.hit(clientId) : 0);
+        if (wait > 0) {
+            throw new HttpError(429, 'Too many requests, please slow down', Math.ceil(wait / 1000));
+        }
+
+        if (url.pathname === '/api/replicate-output' && req.method === 'GET') {
+            const target = URL.canParse(url.searchParams.get('url') || '') ? new URL(url.searchParams.get('url')) : null;
+            if (!target) {
+                throw new HttpError(400, 'Missing or invalid url parameter');
+            }
+            const allowed = config.replicateOutputHosts.some(host => target.hostname === host || target.hostname.endsWith(`.${host}`));
+            if (!allowed) {
+                throw new HttpError(400, `Downloads from ${target.hostname} are not allowed`);
+            }
+            await forward(req, res, target.toString(), {}, undefined);
+            return;
+        }
+
+        if (url.pathname.startsWith('/api/replicate/')) {
+            const upstreamPath = getReplicatePath(req.method || 'GET', url.pathname.slice('/api/replicate'.length), config.replicateModel);
+            if (!upstreamPath) {
+                throw new HttpError(404, 'Not found');
+            }
+            const key = resolveKey(config.replicateApiToken, req, 'Replicate');
+            const body = req.method === 'GET' ? undefined : await readBody(req, config.maxBodyBytes);
+            const headers = { 'Authorization': `Bearer ${key}`, 'Content-Type': 'application/json' };
+            if (req.headers['prefer']) headers['Prefer'] = String(req.headers['prefer']);
+            await forward(req, res, `${config.replicateApiBase}${upstreamPath}`, headers, body);
+            return;
+        }
+
+        if (url.pathname === '/api/openrouter/v1/chat/completions' && req.method === 'POST') {
+            const key = resolveKey(config.openRouterApiKey, req, 'OpenRouter');
+            const body = await readBody(req, config.maxBodyBytes);
+            await forward(req, res, `${config.openRouterApiBase}/v1/chat/completions`, {
+                'Authorization': `Bearer ${key}`,
+                'HTTP-Referer': 'https://pixshop.app',
+                'X-Title': 'Pixshop - AI Photo Editor',
+                'Content-Type': 'application/json',
+            }, body);
+            return;
+        }
+
+        throw new HttpError(404, 'Not found');
+    };
+
+    return async (req, res, next) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+
+        if (url.pathname.startsWith('/api/')) {
+            try {
+                await handleApi(req, res, url);
+            } catch (error) {
+                if (res.headersSent) {
+                    res.destroy();
+                    return;
+                }
+                if (error instanceof HttpError) {
+                    const headers = error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : {};
+                    sendJson(res, error.status, { error: error.message }, headers);
+                } else if (error instanceof Error && error.name === 'AbortError') {
+                    res.destroy();
+                } else {
+                    console.error('Proxy error:', error);
+                    sendJson(res, 502, { error: 'Upstream request failed' });
+                }
+            }
+            return;
+        }
+
+        if (!distDir) {
+            if (next) next();
+            else sendJson(res, 404, { error: 'Not found' });
+            return;
+        }
+
+        // Static files, falling back to index.html for client-side routes
+        let pathname;
+        try {
+            pathname = decodeURIComponent(url.pathname);
+        } catch {
+            sendJson(res, 400, { error: 'Malformed URL' });
+            return;
+        }
+        const filePath = path.join(distDir, path.normalize(pathname));
+        const relativePath = path.relative(distDir, filePath);
+        if (relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+            sendJson(res, 403, { error: 'Forbidden' });
+            return;
+        }
+        fs.stat(filePath, (error, stats) => {
+            if (!error && stats.isFile()) {
+                sendFile(filePath, res);
+            } else {
+                sendFile(path.join(distDir, 'index.html'), res);
+            }
+        });
+    };
+};
+
+/**
+ * Creates an HTTP server that serves the app and proxies provider calls.
+ * @param {ServerOptions} [options]
+ */
+export const createServer = (options = {}) => {
+    const handler = createRequestHandler(options);
+    return http.createServer((req, res) => {
+        handler(req, res).catch(error => {
+            console.error('Request failed:', error);
+            if (res.headersSent) res.destroy();
+            else sendJson(res, 500, { error: 'Internal server error' });
+        });
+    });
+};
+
+// Start the server when run directly: `node server/index.js`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    const port = Number(process.env.PORT || 8080);
+    const distDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'dist');
+    createServer({ ...optionsFromEnv(process.env), distDir }).listen(port, () => {
+        console.log(`Pixshop server listening on http://localhost:${port}`);
+    });
+}
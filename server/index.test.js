@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Runs the server against an in-process fake upstream: `npm test`
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createServer } from './index.js';
+
+/** @type {{ method: string, url: string, authorization: string | undefined, body: string }[]} */
+const upstreamRequests = [];
+let upstream;
+let upstreamBase;
+let tempDir;
+
+/** @param {http.Server} server */
+const listen = (server) => new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${server.address().port}`));
+});
+
+/** @param {http.Server} server */
+const close = (server) => new Promise(resolve => server.close(resolve));
+
+/**
+ * Starts the server with the given options, runs `fn` against it and stops it again.
+ * @param {import('./index.js').ServerOptions} options
+ * @param {(base: string) => Promise<void>} fn
+ */
+const withServer = async (options, fn) => {
+    const server = createServer({ replicateApiBase: upstreamBase, ...options });
+    const base = await listen(server);
+    try {
+        await fn(base);
+    } finally {
+        await close(server);
+    }
+};
+
+const predictionsPath = '/api/replicate/v1/models/google/nano-banana/predictions';
+
+before(async () => {
+    upstream = http.createServer((req, res) => {
+        const chunks = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+            upstreamRequests.push({
+                method: req.method,
+                url: req.url,
+                authorization: req.headers.authorization,
+                body: Buffer.concat(chunks).toString(),
+            });
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ id: 'abc123', status: 'starting' }));
+        });
+    });
+    upstreamBase = await listen(upstream);
+
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pixshop-server-'));
+    fs.mkdirSync(path.join(tempDir, 'dist'));
+    fs.writeFileSync(path.join(tempDir, 'dist', 'index.html'), '<!doctype html><title>Pixshop</title>');
+    fs.mkdirSync(path.join(tempDir, 'dist-private'));
+    fs.writeFileSync(path.join(tempDir, 'dist-private', 'secret.txt'), 'secret');
+});
+
+after(async () => {
+    await close(upstream);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+test('injects the server token into Replicate calls', async () => {
+    upstreamRequests.length = 0;
+    await withServer({ replicateApiToken: 'server-token' }, async (base) => {
+        const response = await fetch(`${base}${predictionsPath}`, {
+            method: 'POST',
+            headers: { 'X-Provider-Key': 'user-key' },
+            body: JSON.stringify({ input: { prompt: 'test' } }),
+        });
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { id: 'abc123', status: 'starting' });
+    });
+    assert.equal(upstreamRequests.length, 1);
+    assert.equal(upstreamRequests[0].url, '/v1/models/google/nano-banana/predictions');
+    assert.equal(upstreamRequests[0].authorization, 'Bearer server-token');
+    assert.equal(upstreamRequests[0].body, JSON.stringify({ input: { prompt: 'test' } }));
+});
+
+test('falls back to the key the user entered', async () => {
+    upstreamRequests.length = 0;
+    await withServer({}, async (base) => {
+        const response = await fetch(`${base}/api/replicate/v1/predictions/abc123`, { headers: { 'X-Provider-Key': 'user-key' } });
+        assert.equal(response.status, 200);
+        const missing = await fetch(`${base}/api/replicate/v1/predictions/abc123`);
+        assert.equal(missing.status, 401);
+    });
+    assert.equal(upstreamRequests.length, 1);
+    assert.equal(upstreamRequests[0].authorization, 'Bearer user-key');
+});
+
+test('forwards only the Replicate calls the app makes', async () => {
+    upstreamRequests.length = 0;
+    await withServer({ replicateApiToken: 'server-token' }, async (base) => {
+        const cancel = await fetch(`${base}/api/replicate/v1/predictions/abc123/cancel`, { method: 'POST' });
+        assert.equal(cancel.status, 200);
+        for (const [method, pathname] of [
+            ['GET', '/api/replicate/v1/predictions'],
+            ['GET', '/api/replicate/v1/account'],
+            ['POST', '/api/replicate/v1/models/someone/other-model/predictions'],
+            ['DELETE', '/api/replicate/v1/predictions/abc123'],
+        ]) {
+            const response = await fetch(`${base}${pathname}`, { method });
+            assert.equal(response.status, 404, `${method} ${pathname}`);
+        }
+    });
+    assert.deepEqual(upstreamRequests.map(request => `${request.method} ${request.url}`), ['POST /v1/predictions/abc123/cancel']);
+});
+
+test('rate limits generation requests and polling', async () => {
+    await withServer({ replicateApiToken: 'server-token', rateLimitMax: 1, pollRateLimitMax: 3 }, async (base) => {
+        assert.equal((await fetch(`${base}${predictionsPath}`, { method: 'POST', body: '{}' })).status, 200);
+        const limited = await fetch(`${base}${predictionsPath}`, { method: 'POST', body: '{}' });
+        assert.equal(limited.status, 429);
+        assert.ok(Number(limited.headers.get('Retry-After')) > 0);
+
+        assert.equal((await fetch(`${base}/api/replicate/v1/predictions/abc123`)).status, 200);
+        assert.equal((await fetch(`${base}/api/replicate/v1/predictions/abc123`)).status, 429);
+    });
+});
+
+test('rejects request bodies over the limit', async () => {
+    upstreamRequests.length = 0;
+    await withServer({ replicateApiToken: 'server-token', maxBodyBytes: 16 }, async (base) => {
+        const response = await fetch(`${base}${predictionsPath}`, { method: 'POST', body: 'x'.repeat(1024) });
+        assert.equal(response.status, 413);
+    });
+    assert.equal(upstreamRequests.length, 0);
+});
+
+test('answers malformed and escaping static paths without crashing', async () => {
+    await withServer({ distDir: path.join(tempDir, 'dist') }, async (base) => {
+        assert.equal((await fetch(`${base}/%E0%A4%A`)).status, 400);
+
+        const sibling = await fetch(`${base}/..%2Fdist-private/secret.txt`);
+        assert.notEqual(await sibling.text(), 'secret');
+
+        // Still serving after the bad requests
+        const index = await fetch(`${base}/some/route`);
+        assert.equal(index.status, 200);
+        assert.match(await index.text(), /Pixshop/);
+    });
+});
+
+test('answers 404 instead of crashing when index.html is missing', async () => {
+    const emptyDist = path.join(tempDir, 'dist-empty');
+    fs.mkdirSync(emptyDist);
+    await withServer({ distDir: emptyDist }, async (base) => {
+        assert.equal((await fetch(`${base}/`)).status, 404);
+        assert.equal((await fetch(`${base}/some/route`)).status, 404);
+        // Still answering API calls afterwards
+        assert.equal((await fetch(`${base}/api/config`)).status, 200);
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Provider API keys entered by the user at runtime, kept in this browser only
+
+export type ApiKeyProvider = 'openrouter' | 'replicate';
+
+export type ApiKeys = Partial<Record<ApiKeyProvider, string>>;
+
+const STORAGE_KEY = 'pixshop.apiKeys';
+
+const loadApiKeys = (): ApiKeys => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) as ApiKeys : {};
+    } catch (error) {
+        console.warn('Could not load API keys:', error);
+        return {};
+    }
+};
+
+let currentKeys: ApiKeys = loadApiKeys();
+const listeners = new Set<(keys: ApiKeys) => void>();
+
+const persist = () => {
+    try {
+        if (Object.keys(currentKeys).length === 0) {
+            localStorage.removeItem(STORAGE_KEY);
+        } else {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(currentKeys));
+        }
+    } catch (error) {
+        console.warn('Could not save API keys:', error);
+    }
+    listeners.forEach(listener => listener(currentKeys));
+};
+
+/**
+ * Returns the stored key for a provider, if any.
+ */
+export const getApiKey = (provider: ApiKeyProvider): string | undefined => currentKeys[provider];
+
+/**
+ * Returns true if a key is stored for the provider.
+ */
+export const hasApiKey = (provider: ApiKeyProvider): boolean => !!currentKeys[provider];
+
+/**
+ * Returns a copy of all stored keys.
+ */
+export const getApiKeys = (): ApiKeys => ({ ...currentKeys });
+
+/**
+ * Stores a key for a provider. An empty key removes it.
+ * @param provider The provider the key belongs to.
+ * @param key The API key.
+ */
+export const setApiKey = (provider: ApiKeyProvider, key: string): void => {
+    const trimmed = key.trim();
+    const next = { ...currentKeys };
+    if (trimmed) {
+        next[provider] = trimmed;
+    } else {
+        delete next[provider];
+    }
+    currentKeys = next;
+    persist();
+};
+
+/**
+ * Removes every stored key from this browser.
+ */
+export const clearApiKeys = (): void => {
+    currentKeys = {};
+    persist();
+};
+
+/**
+ * Subscribes to key changes.
+ * @param listener Called with the stored keys after every change.
+ * @returns A function that removes the subscription.
+ */
+export const subscribeApiKeys = (listener: (keys: ApiKeys) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Processes many images with a concurrency limit. A failed item does not stop the others.
+// When a provider rate limits a request, the item goes back into the queue and the whole
+// queue pauses, honouring the provider's Retry-After hint, before starting anything else.
+
+import { AllProvidersFailedError, ImageGenerationError, RateLimitedError } from './errors';
+import { isAbortError } from './imageProviders';
+import { RetryOptions, getBackoffDelay, getRetryOptions } from './retry';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+    id: string;
+    file: File;
+    status: BatchItemStatus;
+    // Progress of a multi-step item, e.g. "Step 2 of 3"
+    progress?: string;
+    result?: File;
+    error?: string;
+    // Times the item was put back because the provider was rate limiting
+    rateLimitRetries: number;
+}
+
+export interface BatchQueueState {
+    items: BatchItem[];
+    // While set, no new item starts before this time
+    cooldownUntil: number | null;
+}
+
+/**
+ * Turns one image into its result.
+ * @param onProgress Reports progress within the item.
+ */
+export type BatchProcessor = (file: File, signal: AbortSignal, onProgress: (progress: string) => void) => Promise<File>;
+
+export interface BatchQueue {
+    add: (files: File[], process: BatchProcessor) => void;
+    // Queues a failed or cancelled item again
+    retry: (id: string) => void;
+    cancel: (id: string) => void;
+    cancelAll: () => void;
+    setConcurrency: (limit: number) => void;
+    getState: () => BatchQueueState;
+    subscribe: (listener: (state: BatchQueueState) => void) => () => void;
+}
+
+/**
+ * Retry options for generations run from the queue. Rate limits are not retried per item,
+ * so concurrent items do not each hammer a rate-limited provider; the queue backs off instead.
+ */
+export const batchRetryOptions: Partial<RetryOptions> = { retryRateLimits: false };
+
+// After this many rate-limited attempts an item fails instead of waiting again
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+// Finds the rate limit behind a failure, looking inside the failures of every provider so
+// the longest Retry-After hint is kept
+const findRateLimitError = (error: unknown): ImageGenerationError | undefined => {
+    if (error instanceof AllProvidersFailedError) {
+        const rateLimited = error.errors.filter(e => e.kind === 'rate-limited');
+        const hinted = rateLimited
+            .filter((e): e is RateLimitedError => e instanceof RateLimitedError && e.retryAfterMs !== undefined)
+            .sort((a, b) => b.retryAfterMs! - a.retryAfterMs!);
+        return hinted[0] ?? rateLimited[0];
+    }
+    return error instanceof ImageGenerationError && error.kind === 'rate-limited' ? error : undefined;
+};
+
+/**
+ * Creates an empty queue.
+ * @param concurrency How many items may run at the same time.
+ */
+export const createBatchQueue = (concurrency = 2): BatchQueue => {
+    let items: BatchItem[] = [];
+    let limit = concurrency;
+    let cooldownUntil: number | null = null;
+    let cooldownTimer: ReturnType<typeof setTimeout> | undefined;
+    // Rate limits in a row, so repeated ones back off further
+    let rateLimitStreak = 0;
+    let nextId = 0;
+    const processors = new Map<string, BatchProcessor>();
+    const controllers = new Map<string, AbortController>();
+    const listeners = new Set<(state: BatchQueueState) => void>();
+
+    const getState = (): BatchQueueState => ({ items, cooldownUntil });
+    const notify = () => listeners.forEach(listener => listener(getState()));
+    const update = (id: string, patch: Partial<BatchItem>) => {
+        items = items.map(item => item.id === id ? { ...item, ...patch } : item);
+    };
+
+    const startCooldown = (error: ImageGenerationError) => {
+        rateLimitStreak++;
+        const until = Date.now() + getBackoffDelay(rateLimitStreak, getRetryOptions(), error);
+        cooldownUntil = Math.max(cooldownUntil ?? 0, until);
+        clearTimeout(cooldownTimer);
+        cooldownTimer = setTimeout(() => {
+            cooldownUntil = null;
+            pump();
+            notify();
+        }, cooldownUntil - Date.now());
+    };
+
+    const run = async (id: string) => {
+        const controller = new AbortController();
+        controllers.set(id, controller);
+        update(id, { status: 'running', progress: undefined, error: undefined });
+        const item = items.find(candidate => candidate.id === id)!;
+        try {
+            const result = await processors.get(id)!(item.file, controller.signal, progress => {
+                update(id, { progress });
+                notify();
+            });
+            rateLimitStreak = 0;
+            update(id, { status: 'done', progress: undefined, result });
+        } catch (error) {
+            const rateLimit = findRateLimitError(error);
+            if (controller.signal.aborted || isAbortError(error)) {
+                update(id, { status: 'cancelled', progress: undefined });
+            } else if (rateLimit && item.rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+                update(id, { status: 'queued', progress: undefined, rateLimitRetries: item.rateLimitRetries + 1 });
+                startCooldown(rateLimit);
+            } else {
+                console.error(`Batch item ${item.file.name} failed:`, error);
+                update(id, { status: 'failed', progress: undefined, error: error instanceof Error ? error.message : 'An unknown error occurred.' });
+            }
+        } finally {
+            controllers.delete(id);
+            pump();
+            notify();
+        }
+    };
+
+    // Starts queued items, oldest first, until the concurrency limit is reached
+    const pump = () => {
+        if (cooldownUntil !== null) return;
+        let running = items.filter(item => item.status === 'running').length;
+        for (const item of items) {
+            if (running >= limit) break;
+            if (item.status === 'queued') {
+                running++;
+                run(item.id);
+            }
+        }
+    };
+
+    return {
+        add: (files, process) => {
+            const added = files.map((file): BatchItem => ({ id: `batch-${nextId++}`, file, status: 'queued', rateLimitRetries: 0 }));
+            added.forEach(item => processors.set(item.id, process));
+            items = [...items, ...added];
+            pump();
+            notify();
+        },
+        retry: (id) => {
+            const item = items.find(candidate => candidate.id === id);
+            if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+            update(id, { status: 'queued', error: undefined, rateLimitRetries: 0 });
+            pump();
+            notify();
+        },
+        cancel: (id) => {
+            const item = items.find(candidate => candidate.id === id);
+            if (item?.status === 'queued') {
+                update(id, { status: 'cancelled' });
+                notify();
+            }
+            // A running item is marked cancelled once its processor stops
+            controllers.get(id)?.abort();
+        },
+        cancelAll: () => {
+            items = items.map(item => item.status === 'queued' ? { ...item, status: 'cancelled' } : item);
+            controllers.forEach(controller => controller.abort());
+            notify();
+        },
+        setConcurrency: (next) => {
+            limit = Math.max(1, next);
+            pump();
+            notify();
+        },
+        getState,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
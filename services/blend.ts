@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Blending an AI result with the image it was generated from, so a filter or
+// adjustment can be applied partially, or only to luminosity or colour.
+// The luminosity and colour modes follow the W3C compositing spec.
+
+import { BlendMode } from '../types';
+import { loadImage, createCanvas } from './imageUtils';
+
+type Rgb = [number, number, number];
+
+const lum = ([r, g, b]: Rgb) => 0.3 * r + 0.59 * g + 0.11 * b;
+
+const clipColor = (color: Rgb): Rgb => {
+    const l = lum(color);
+    const n = Math.min(...color);
+    const x = Math.max(...color);
+    let result = color;
+    if (n < 0) result = result.map(c => l + (c - l) * l / (l - n)) as Rgb;
+    if (x > 1) result = result.map(c => l + (c - l) * (1 - l) / (x - l)) as Rgb;
+    return result;
+};
+
+const setLum = (color: Rgb, l: number): Rgb => {
+    const d = l - lum(color);
+    return clipColor([color[0] + d, color[1] + d, color[2] + d]);
+};
+
+/**
+ * Blends `top` over `base` in place.
+ * @param base The previous image's pixels; receives the result.
+ * @param top The AI result's pixels, at the same size.
+ * @param opacity How much of the blended result to use, from 0 to 1.
+ * @param mode Normal uses the result as is; luminosity keeps the base colours;
+ * colour keeps the base brightness.
+ */
+export const blendPixels = (base: ImageData, top: ImageData, opacity: number, mode: BlendMode): void => {
+    const b = base.data;
+    const t = top.data;
+    for (let i = 0; i < b.length; i += 4) {
+        let blended: Rgb = [t[i] / 255, t[i + 1] / 255, t[i + 2] / 255];
+        if (mode !== 'normal') {
+            const backdrop: Rgb = [b[i] / 255, b[i + 1] / 255, b[i + 2] / 255];
+            blended = mode === 'luminosity' ? setLum(backdrop, lum(blended)) : setLum(blended, lum(backdrop));
+        }
+        for (let c = 0; c < 3; c++) {
+            b[i + c] = b[i + c] + (blended[c] * 255 - b[i + c]) * opacity;
+        }
+    }
+};
+
+/**
+ * Draws two images at the same size and returns their pixels.
+ * @param baseUrl URL of the base image, which sets the size.
+ * @param topUrl URL of the image to blend over it.
+ * @param maxSize Optional limit on the longer side, for previews.
+ */
+export const loadBlendLayers = async (baseUrl: string, topUrl: string, maxSize?: number): Promise<{ base: ImageData, top: ImageData }> => {
+    const [baseImage, topImage] = await Promise.all([loadImage(baseUrl), loadImage(topUrl)]);
+    const scale = maxSize ? Math.min(1, maxSize / Math.max(baseImage.naturalWidth, baseImage.naturalHeight)) : 1;
+    const width = Math.max(1, Math.round(baseImage.naturalWidth * scale));
+    const height = Math.max(1, Math.round(baseImage.naturalHeight * scale));
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(baseImage, 0, 0, width, height);
+    const base = ctx.getImageData(0, 0, width, height);
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(topImage, 0, 0, width, height);
+    return { base, top: ctx.getImageData(0, 0, width, height) };
+};
+
+/**
+ * Blends an AI result with its source image at full resolution.
+ * @param base The source image.
+ * @param top The AI result.
+ * @param opacity How much of the blended result to use, from 0 to 1.
+ * @param mode The blend mode.
+ * @returns A promise that resolves to the blended PNG.
+ */
+export const renderBlend = async (base: File, top: File, opacity: number, mode: BlendMode): Promise<File> => {
+    const baseUrl = URL.createObjectURL(base);
+    const topUrl = URL.createObjectURL(top);
+    try {
+        const layers = await loadBlendLayers(baseUrl, topUrl);
+        blendPixels(layers.base, layers.top, opacity, mode);
+        const { canvas, ctx } = createCanvas(layers.base.width, layers.base.height);
+        ctx.putImageData(layers.base, 0, 0);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) {
+            throw new Error('Could not encode the blended image');
+        }
+        return new File([blob], top.name, { type: 'image/png' });
+    } finally {
+        URL.revokeObjectURL(baseUrl);
+        URL.revokeObjectURL(topUrl);
+    }
+};
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Composites AI edits back onto the source image so that only the edited
+// region changes, even when the model shifts colours or resamples the frame.
+
+import { EditRegion, Rect } from '../types';
+import { loadImage, createCanvas, imageToCanvas } from './imageUtils';
+
+// Feather radius (in image pixels) used until the user picks another one
+export const DEFAULT_BLEND_FEATHER = 24;
+
+// Radius of the fully edited area around a point hotspot, as a fraction of the shorter image edge
+const HOTSPOT_RADIUS = 0.12;
+
+// Edit tiles include surrounding context so the model can match lighting and texture
+const TILE_CONTEXT = 0.5;
+const MIN_TILE_SIZE = 512;
+
+/**
+ * Returns the rectangle of pixels an edit can change once blended with the given feather radius.
+ * @param width The image width in pixels.
+ * @param height The image height in pixels.
+ * @param region The hotspot and optional mask of the edit.
+ * @param feather The feather radius in pixels.
+ */
+export const getRegionBounds = (width: number, height: number, region: EditRegion, feather: number): Rect => {
+    let bounds: Rect;
+    if (region.mask) {
+        bounds = region.mask.bounds;
+    } else {
+        const radius = Math.min(width, height) * HOTSPOT_RADIUS;
+        bounds = { x: region.hotspot.x - radius, y: region.hotspot.y - radius, width: radius * 2, height: radius * 2 };
+    }
+    const x = Math.max(0, Math.floor(bounds.x - feather));
+    const y = Math.max(0, Math.floor(bounds.y - feather));
+    return {
+        x,
+        y,
+        width: Math.min(width, Math.ceil(bounds.x + bounds.width + feather)) - x,
+        height: Math.min(height, Math.ceil(bounds.y + bounds.height + feather)) - y,
+    };
+};
+
+/**
+ * Picks the tile to upload for a localized edit: the affected area plus some context,
+ * grown to a minimum size where the image allows it and clamped to the image.
+ * @param width The image width in pixels.
+ * @param height The image height in pixels.
+ * @param region The hotspot and optional mask of the edit.
+ * @param feather The feather radius the result will be blended with.
+ */
+export const getEditTile = (width: number, height: number, region: EditRegion, feather: number): Rect => {
+    const bounds = getRegionBounds(width, height, region, feather);
+    const grow = (start: number, size: number, limit: number) => {
+        const target = Math.min(limit, Math.max(MIN_TILE_SIZE, Math.round(size * (1 + TILE_CONTEXT * 2))));
+        const from = Math.round(start + size / 2 - target / 2);
+        const clamped = Math.max(0, Math.min(limit - target, from));
+        return [clamped, target];
+    };
+    const [x, tileWidth] = grow(bounds.x, bounds.width, width);
+    const [y, tileHeight] = grow(bounds.y, bounds.height, height);
+    return { x, y, width: tileWidth, height: tileHeight };
+};
+
+/**
+ * Crops a rectangle out of an image.
+ * @param src The image URL (object URL or data URL).
+ * @param rect The area to crop, in image pixels.
+ * @returns A promise that resolves to a PNG data URL of the crop.
+ */
+export const cropImage = async (src: string, rect: Rect): Promise<string> => {
+    const image = await loadImage(src);
+    const { canvas, ctx } = createCanvas(rect.width, rect.height);
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Translates an edit region into the coordinate space of a tile, cropping its mask to match.
+ * @param region The hotspot and optional mask of the edit.
+ * @param tile The tile, in image pixels.
+ */
+export const cropRegion = async (region: EditRegion, tile: Rect): Promise<EditRegion> => {
+    const hotspot = { x: region.hotspot.x - tile.x, y: region.hotspot.y - tile.y };
+    if (!region.mask) {
+        return { hotspot };
+    }
+    const { bounds } = region.mask;
+    return {
+        hotspot,
+        mask: {
+            dataUrl: await cropImage(region.mask.dataUrl, tile),
+            bounds: { ...bounds, x: bounds.x - tile.x, y: bounds.y - tile.y },
+        },
+    };
+};
+
+/**
+ * Scales an edited tile back to its original size and pastes it into the full image.
+ * @param src The full image URL.
+ * @param tileUrl The edited tile; may be at a different resolution than the crop that was sent.
+ * @param tile Where the tile came from, in image pixels.
+ * @returns A promise that resolves to a PNG data URL of the full image.
+ */
+export const pasteTile = async (src: string, tileUrl: string, tile: Rect): Promise<string> => {
+    const { canvas, ctx } = imageToCanvas(await loadImage(src));
+    ctx.drawImage(await loadImage(tileUrl), tile.x, tile.y, tile.width, tile.height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Builds a canvas whose alpha channel is the blend weight of each pixel:
+ * opaque inside the edit region, fading out over the feather radius.
+ * @param width The image width in pixels.
+ * @param height The image height in pixels.
+ * @param region The hotspot and optional mask of the edit.
+ * @param feather The feather radius in pixels.
+ */
+export const createRegionMask = async (
+    width: number,
+    height: number,
+    region: EditRegion,
+    feather: number
+): Promise<HTMLCanvasElement> => {
+    const { canvas, ctx } = createCanvas(width, height);
+
+    if (region.mask) {
+        // The painted mask is white-on-black; soften it and move its brightness into alpha
+        ctx.filter = feather > 0 ? `blur(${feather / 2}px)` : 'none';
+        ctx.drawImage(await loadImage(region.mask.dataUrl), 0, 0, width, height);
+        ctx.filter = 'none';
+        const imageData = ctx.getImageData(0, 0, width, height);
+        const data = imageData.data;
+        for (let i = 0; i < data.length; i += 4) {
+            data[i + 3] = data[i];
+            data[i] = data[i + 1] = data[i + 2] = 255;
+        }
+        ctx.putImageData(imageData, 0, 0);
+        return canvas;
+    }
+
+    const { x, y } = region.hotspot;
+    const inner = Math.min(width, height) * HOTSPOT_RADIUS;
+    const outer = inner + Math.max(1, feather);
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, outer);
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+    gradient.addColorStop(inner / outer, 'rgba(255, 255, 255, 1)');
+    gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+    return canvas;
+};
+
+/**
+ * Renders the blend region as a translucent overlay for previewing which area will change.
+ * @returns A data URL of a PNG the same size as the image.
+ */
+export const createRegionPreview = async (
+    width: number,
+    height: number,
+    region: EditRegion,
+    feather: number
+): Promise<string> => {
+    const canvas = await createRegionMask(width, height, region, feather);
+    const ctx = canvas.getContext('2d')!;
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = 'rgba(34, 197, 94, 0.6)';
+    ctx.fillRect(0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Composites an edited image onto the original so that only the feathered edit region changes.
+ * The edited image is stretched to the original size if the model returned a different resolution.
+ * @param original The image the edit was requested on.
+ * @param editedImageUrl Data URL of the image returned by the model.
+ * @param region The hotspot and optional mask of the edit.
+ * @param feather The feather radius in pixels.
+ * @returns A promise that resolves to a PNG data URL of the merged image.
+ */
+export const compositeEdit = async (
+    original: File,
+    editedImageUrl: string,
+    region: EditRegion,
+    feather: number
+): Promise<string> => {
+    const originalUrl = URL.createObjectURL(original);
+    try {
+        const { canvas, ctx } = imageToCanvas(await loadImage(originalUrl));
+        const { width, height } = canvas;
+
+        const edited = createCanvas(width, height);
+        edited.ctx.drawImage(await loadImage(editedImageUrl), 0, 0, width, height);
+        edited.ctx.globalCompositeOperation = 'destination-in';
+        edited.ctx.drawImage(await createRegionMask(width, height, region, feather), 0, 0);
+
+        ctx.drawImage(edited.canvas, 0, 0);
+        return canvas.toDataURL('image/png');
+    } finally {
+        URL.revokeObjectURL(originalUrl);
+    }
+};
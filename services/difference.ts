@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Pixel difference between two history steps, shown as a heatmap over a dimmed
+// copy of the newer image so it is clear exactly which pixels an edit changed.
+
+export interface DifferenceResult {
+    heatmap: ImageData;
+    // Pixels whose largest channel difference is above the threshold
+    changedPixels: number;
+    totalPixels: number;
+}
+
+// Blue for small changes, through yellow, to red for the largest ones
+const heatColor = (t: number): [number, number, number] => {
+    if (t < 0.5) {
+        const u = t * 2;
+        return [255 * u, 255 * u, 255 * (1 - u)];
+    }
+    const u = (t - 0.5) * 2;
+    return [255, 255 * (1 - u), 0];
+};
+
+/**
+ * Compares two images of the same size.
+ * @param before The earlier image's pixels.
+ * @param after The later image's pixels.
+ * @param threshold Channel differences up to this value (0 to 255) count as unchanged,
+ * which hides compression noise.
+ */
+export const computeDifference = (before: ImageData, after: ImageData, threshold: number): DifferenceResult => {
+    const a = before.data;
+    const b = after.data;
+    const heatmap = new ImageData(after.width, after.height);
+    const out = heatmap.data;
+    let changedPixels = 0;
+
+    for (let i = 0; i < b.length; i += 4) {
+        const diff = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+        if (diff > threshold) {
+            changedPixels++;
+            // Differences of half the range or more are shown at full heat
+            const [r, g, bl] = heatColor(Math.min(1, diff / 128));
+            out[i] = r;
+            out[i + 1] = g;
+            out[i + 2] = bl;
+        } else {
+            const grey = (0.2126 * b[i] + 0.7152 * b[i + 1] + 0.0722 * b[i + 2]) * 0.3;
+            out[i] = out[i + 1] = out[i + 2] = grey;
+        }
+        out[i + 3] = 255;
+    }
+
+    return { heatmap, changedPixels, totalPixels: b.length / 4 };
+};
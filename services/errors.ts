@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Typed errors raised by the image generation service layer
+
+export type ImageErrorKind =
+    | 'rate-limited'
+    | 'auth-missing'
+    | 'safety-refusal'
+    | 'timeout'
+    | 'invalid-output'
+    | 'network'
+    | 'unknown';
+
+/**
+ * Base class for all errors thrown by image providers.
+ */
+export class ImageGenerationError extends Error {
+    readonly kind: ImageErrorKind;
+    readonly provider?: string;
+    readonly retryable: boolean;
+
+    constructor(message: string, kind: ImageErrorKind = 'unknown', options: { provider?: string, retryable?: boolean, cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'ImageGenerationError';
+        this.kind = kind;
+        this.provider = options.provider;
+        this.retryable = options.retryable ?? false;
+    }
+}
+
+// The provider rejected the request because of too many calls
+export class RateLimitedError extends ImageGenerationError {
+    // Delay suggested by the provider (Retry-After), if any
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, options: { provider?: string, retryAfterMs?: number, cause?: unknown } = {}) {
+        super(message, 'rate-limited', { ...options, retryable: true });
+        this.name = 'RateLimitedError';
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+// No API key is configured, or the provider rejected the key
+export class AuthMissingError extends ImageGenerationError {
+    constructor(message: string, options: { provider?: string, cause?: unknown } = {}) {
+        super(message, 'auth-missing', options);
+        this.name = 'AuthMissingError';
+    }
+}
+
+// The model refused the request or its output was blocked by a safety filter
+export class SafetyRefusalError extends ImageGenerationError {
+    constructor(message: string, options: { provider?: string, cause?: unknown } = {}) {
+        super(message, 'safety-refusal', options);
+        this.name = 'SafetyRefusalError';
+    }
+}
+
+// The provider did not finish within the allowed time. Not retried automatically: each
+// attempt already waited the full timeout, so the user decides whether to wait again.
+export class GenerationTimeoutError extends ImageGenerationError {
+    constructor(message: string, options: { provider?: string, cause?: unknown } = {}) {
+        super(message, 'timeout', options);
+        this.name = 'GenerationTimeoutError';
+    }
+}
+
+// The provider responded, but not with a usable image
+export class InvalidOutputError extends ImageGenerationError {
+    constructor(message: string, options: { provider?: string, cause?: unknown } = {}) {
+        super(message, 'invalid-output', options);
+        this.name = 'InvalidOutputError';
+    }
+}
+
+// The provider could not be reached, or returned a server error
+export class NetworkError extends ImageGenerationError {
+    constructor(message: string, options: { provider?: string, cause?: unknown } = {}) {
+        super(message, 'network', { ...options, retryable: true });
+        this.name = 'NetworkError';
+    }
+}
+
+// Every registered provider failed; `errors` holds each provider's failure in order
+export class AllProvidersFailedError extends ImageGenerationError {
+    readonly errors: ImageGenerationError[];
+
+    constructor(message: string, errors: ImageGenerationError[]) {
+        const primary = pickPrimaryError(errors);
+        super(message, primary?.kind ?? 'unknown', { provider: primary?.provider, cause: primary });
+        this.name = 'AllProvidersFailedError';
+        this.errors = errors;
+    }
+}
+
+// Picks the failure that best explains an aggregate error. A missing key on one
+// provider is less interesting than what went wrong on a provider that was configured.
+const pickPrimaryError = (errors: ImageGenerationError[]): ImageGenerationError | undefined => {
+    return errors.find(e => e.kind !== 'auth-missing') ?? errors[0];
+};
+
+/**
+ * Converts an unknown thrown value into an ImageGenerationError.
+ * @param error The thrown value.
+ * @param provider The name of the provider that threw it.
+ */
+export const toImageGenerationError = (error: unknown, provider?: string): ImageGenerationError => {
+    if (error instanceof ImageGenerationError) {
+        return error;
+    }
+    // Connection failures arrive as NetworkError from fetchFromProvider; anything else,
+    // such as a TypeError from a bug, is not worth retrying
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new ImageGenerationError(message, 'unknown', { provider, cause: error });
+};
+
+/**
+ * Maps a failed HTTP response to the matching typed error.
+ * @param status The HTTP status code.
+ * @param message The error message to use.
+ * @param options The provider name and the Retry-After header value, if any.
+ */
+export const errorFromHttpStatus = (
+    status: number,
+    message: string,
+    options: { provider?: string, retryAfter?: string | null } = {}
+): ImageGenerationError => {
+    const { provider, retryAfter } = options;
+    if (status === 401 || status === 403) {
+        return new AuthMissingError(message, { provider });
+    }
+    if (status === 429) {
+        const seconds = retryAfter ? Number(retryAfter) : NaN;
+        return new RateLimitedError(message, { provider, retryAfterMs: Number.isFinite(seconds) ? seconds * 1000 : undefined });
+    }
+    if (status === 408 || status === 504) {
+        return new GenerationTimeoutError(message, { provider });
+    }
+    if (status >= 500) {
+        return new NetworkError(message, { provider });
+    }
+    return new ImageGenerationError(message, 'unknown', { provider });
+};
+
+const SAFETY_PATTERN = /\b(nsfw|safety|unsafe|flagged|blocked|content[ _]filter|policy|sensitive)\b/i;
+const REFUSAL_PATTERN = /\b(I can(?:'|no)t|I cannot|I'm unable|I am unable|I won't|I will not|not able to)\b/i;
+
+/**
+ * Returns true if a provider message looks like a safety block or a model refusal.
+ */
+export const looksLikeSafetyRefusal = (message: string): boolean => {
+    return SAFETY_PATTERN.test(message) || REFUSAL_PATTERN.test(message);
+};
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Re-encodes the edited image for download in the format, quality and size the user picks
+
+import { loadImage, createCanvas } from './imageUtils';
+import { canEmbedExif, writeExif } from './metadata';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export type ExportResize =
+    | { mode: 'original' }
+    | { mode: 'long-edge', size: number }
+    | { mode: 'percent', percent: number };
+
+export interface ExportOptions {
+    format: ExportFormat;
+    // Encoder quality from 0 to 1; ignored for PNG
+    quality: number;
+    resize: ExportResize;
+    // EXIF block to embed, or null to strip metadata
+    exif: Uint8Array | null;
+}
+
+export const exportFormats: { format: ExportFormat, label: string, mimeType: string, extension: string, lossy: boolean }[] = [
+    { format: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false },
+    { format: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+    { format: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true },
+    { format: 'avif', label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true },
+];
+
+const formatInfo = (format: ExportFormat) => exportFormats.find(info => info.format === format)!;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob | null> => {
+    return new Promise(resolve => canvas.toBlob(resolve, mimeType, quality));
+};
+
+let supportedFormats: Promise<ExportFormat[]> | null = null;
+
+/**
+ * Detects which export formats the browser can encode.
+ * Browsers fall back to PNG for types they cannot encode, so the result type is checked.
+ */
+export const getSupportedExportFormats = (): Promise<ExportFormat[]> => {
+    if (!supportedFormats) {
+        supportedFormats = (async () => {
+            const { canvas } = createCanvas(1, 1);
+            const results = await Promise.all(exportFormats.map(async info => {
+                const blob = await canvasToBlob(canvas, info.mimeType);
+                return blob?.type === info.mimeType ? info.format : null;
+            }));
+            return results.filter((format): format is ExportFormat => format !== null);
+        })();
+    }
+    return supportedFormats;
+};
+
+/**
+ * Returns true if metadata can be kept when exporting to the format.
+ */
+export const canKeepMetadata = (format: ExportFormat): boolean => canEmbedExif(formatInfo(format).mimeType);
+
+/**
+ * Computes the output size for a resize option, never upscaling.
+ * @param width The source width in pixels.
+ * @param height The source height in pixels.
+ * @param resize The resize option.
+ */
+export const getExportSize = (width: number, height: number, resize: ExportResize): { width: number, height: number } => {
+    let scale = 1;
+    if (resize.mode === 'long-edge') {
+        scale = resize.size / Math.max(width, height);
+    } else if (resize.mode === 'percent') {
+        scale = resize.percent / 100;
+    }
+    scale = Math.min(1, Math.max(scale, 1 / Math.max(width, height)));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * Encodes an image with the given export options.
+ * @param image The image to export.
+ * @param options Format, quality, size and metadata options.
+ * @returns A promise that resolves to the encoded file.
+ */
+export const renderExport = async (image: Blob, options: ExportOptions): Promise<Blob> => {
+    const url = URL.createObjectURL(image);
+    try {
+        const source = await loadImage(url);
+        const { width, height } = getExportSize(source.naturalWidth, source.naturalHeight, options.resize);
+        const { canvas, ctx } = createCanvas(width, height);
+        // JPEG has no alpha channel, so transparent areas would turn black
+        if (options.format === 'jpeg') {
+            ctx.fillStyle = 'white';
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(source, 0, 0, width, height);
+
+        const info = formatInfo(options.format);
+        const blob = await canvasToBlob(canvas, info.mimeType, info.lossy ? options.quality : undefined);
+        if (!blob) {
+            throw new Error(`The browser could not encode ${info.label}`);
+        }
+        return options.exif && canEmbedExif(info.mimeType) ? await writeExif(blob, options.exif) : blob;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+/**
+ * Builds the download file name for an export, replacing the source extension.
+ * @param sourceName The name of the source file.
+ * @param format The export format.
+ */
+export const getExportFileName = (sourceName: string, format: ExportFormat): string => {
+    const baseName = sourceName.replace(/\.[^.]+$/, '') || 'image';
+    return `edited-${baseName}.${formatInfo(format).extension}`;
+};
@@ -4,6 +4,27 @@
 */
 
 // Multi-provider AI image generation service (OpenRouter + Replicate)
+// All provider calls go through the Pixshop server under /api, which holds the API keys.
+
+import { ImageProvider, ImageGenerationRequest, ImageGenerationResult, registerImageProvider, setPreferredProvider, generateWithProviders, isAbortError } from './imageProviders';
+import {
+    ImageGenerationError,
+    SafetyRefusalError,
+    GenerationTimeoutError,
+    InvalidOutputError,
+    NetworkError,
+    errorFromHttpStatus,
+    looksLikeSafetyRefusal,
+    toImageGenerationError
+} from './errors';
+import { delay, RetryOptions } from './retry';
+import { mockProvider } from './mockProvider';
+import { getSettings, subscribeSettings, Settings } from './settings';
+import { getApiKey, hasApiKey, ApiKeyProvider } from './apiKeyStore';
+import { loadServerConfig, getServerConfig, serverHasKey } from './serverConfig';
+import { EditRegion, Rect } from '../types';
+import { loadImage, normalizeImageSize } from './imageUtils';
+import { getEditTile, cropImage, cropRegion, pasteTile } from './compositing';
 
 // Helper function to convert a File object to data URL for OpenRouter
 const fileToDataUrl = async (file: File): Promise<string> => {
@@ -15,12 +36,35 @@ const fileToDataUrl = async (file: File): Promise<string> => {
     });
 };
 
+// Headers that forward the user's own key, if they entered one in Settings.
+// The server prefers its own key and only falls back to this one.
+const providerKeyHeaders = (provider: ApiKeyProvider): Record<string, string> => {
+    const key = getApiKey(provider);
+    return key ? { 'X-Provider-Key': key } : {};
+};
+
+// A provider is usable if either the user or the server has a key for it.
+// Until the server config has loaded, assume it might.
+const isProviderConfigured = (provider: ApiKeyProvider): boolean => {
+    return hasApiKey(provider) || serverHasKey(provider) || getServerConfig() === null;
+};
+
+// Helper function to call fetch, surfacing connection failures as NetworkError
+const fetchFromProvider = async (provider: string, url: string, init: RequestInit = {}): Promise<Response> => {
+    try {
+        return await fetch(url, init);
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new NetworkError(`Could not reach ${provider}: ${error instanceof Error ? error.message : 'Unknown error'}`, { provider, cause: error });
+    }
+};
+
 // Helper function to convert image URL to data URL
-const convertUrlToDataUrl = async (url: string): Promise<string> => {
+const convertUrlToDataUrl = async (url: string, provider: string, signal?: AbortSignal): Promise<string> => {
     try {
-        const response = await fetch(url);
+        const response = await fetchFromProvider(provider, url, { signal });
         if (!response.ok) {
-            throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+            throw errorFromHttpStatus(response.status, `Failed to fetch image: ${response.status} ${response.statusText}`, { provider });
         }
         
         const blob = await response.blob();
@@ -31,8 +75,9 @@ const convertUrlToDataUrl = async (url: string): Promise<string> => {
             reader.onerror = error => reject(error);
         });
     } catch (error) {
+        if (isAbortError(error) || error instanceof ImageGenerationError) throw error;
         console.error('Error converting URL to data URL:', error);
-        throw new Error(`Failed to convert image URL to data URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw new InvalidOutputError(`Failed to convert image URL to data URL: ${error instanceof Error ? error.message : 'Unknown error'}`, { provider, cause: error });
     }
 };
 
@@ -45,6 +90,7 @@ interface OpenRouterResponse {
     }>;
     error?: {
         message: string;
+        code?: number;
     };
 }
 
@@ -52,78 +98,128 @@ const handleOpenRouterResponse = (
     response: OpenRouterResponse,
     context: string
 ): string => {
+    const provider = 'OpenRouter';
+
     if (response.error) {
         const errorMessage = `OpenRouter API error for ${context}: ${response.error.message}`;
         console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+        if (looksLikeSafetyRefusal(response.error.message)) {
+            throw new SafetyRefusalError(errorMessage, { provider });
+        }
+        throw errorFromHttpStatus(response.error.code ?? 0, errorMessage, { provider });
     }
 
     const choice = response.choices?.[0];
     if (!choice) {
         const errorMessage = `No response choices returned for ${context}`;
         console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+        throw new InvalidOutputError(errorMessage, { provider });
+    }
+
+    if (choice.finish_reason === 'content_filter') {
+        const errorMessage = `The request for ${context} was blocked by the provider's safety filter`;
+        console.error(errorMessage, { response });
+        throw new SafetyRefusalError(errorMessage, { provider });
     }
 
     const content = choice.message?.content;
     if (!content) {
         const errorMessage = `No content in response for ${context}`;
         console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+        throw new InvalidOutputError(errorMessage, { provider });
     }
 
     // For image generation, the content should be a data URL
     if (!content.startsWith('data:image/')) {
         const errorMessage = `Response for ${context} does not contain valid image data. Content: ${content.substring(0, 100)}...`;
         console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+        // A text answer instead of an image is usually the model declining the request
+        if (looksLikeSafetyRefusal(content)) {
+            throw new SafetyRefusalError(`The model declined the request for ${context}: ${content.substring(0, 200)}`, { provider });
+        }
+        throw new InvalidOutputError(errorMessage, { provider });
     }
 
     console.log(`Received image data for ${context}`);
     return content;
 };
 
-const callOpenRouter = async (messages: any[]): Promise<OpenRouterResponse> => {
-    const apiKey = process.env.OPENROUTER_API_KEY || process.env.API_KEY;
-    if (!apiKey) {
-        throw new Error('OPENROUTER_API_KEY or API_KEY environment variable is required');
-    }
-
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+const callOpenRouter = async (messages: any[], signal?: AbortSignal): Promise<OpenRouterResponse> => {
+    const response = await fetchFromProvider('OpenRouter', '/api/openrouter/v1/chat/completions', {
         method: 'POST',
         headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'HTTP-Referer': 'https://pixshop.app',
-            'X-Title': 'Pixshop - AI Photo Editor',
+            ...providerKeyHeaders('openrouter'),
             'Content-Type': 'application/json'
         },
         body: JSON.stringify({
             model: 'google/gemini-2.5-flash-image-preview:free',
             messages
-        })
+        }),
+        signal
     });
 
     if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`OpenRouter API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+        throw errorFromHttpStatus(response.status, `OpenRouter API request failed: ${response.status} ${response.statusText} - ${errorText}`, {
+            provider: 'OpenRouter',
+            retryAfter: response.headers.get('Retry-After')
+        });
     }
 
-    return response.json();
+    try {
+        return await response.json();
+    } catch (error) {
+        throw new InvalidOutputError('OpenRouter returned a malformed response', { provider: 'OpenRouter', cause: error });
+    }
 };
 
-// Replicate API integration using direct HTTP calls to avoid CORS
-const callReplicate = async (prompt: string, imageUrl: string): Promise<string> => {
-    const apiKey = process.env.REPLICATE_API_TOKEN;
-    if (!apiKey) {
-        throw new Error('REPLICATE_API_TOKEN environment variable is required');
+// Maps a failed Replicate prediction to a typed error
+const replicatePredictionError = (detail: unknown): ImageGenerationError => {
+    const message = `Replicate prediction failed: ${detail || 'Unknown error'}`;
+    if (typeof detail === 'string' && looksLikeSafetyRefusal(detail)) {
+        return new SafetyRefusalError(message, { provider: 'Replicate' });
     }
+    return new ImageGenerationError(message, 'unknown', { provider: 'Replicate' });
+};
 
-    try {
-        // Create prediction
-        const predictionResponse = await fetch('/api/replicate/v1/models/google/nano-banana/predictions', {
+// Generated images are downloaded through the server as well
+const replicateOutputUrl = (url: string): string => `/api/replicate-output?url=${encodeURIComponent(url)}`;
+
+// Rejects as soon as the signal aborts, without stopping the underlying work
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    return new Promise<T>((resolve, reject) => {
+        if (signal.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+// Replicate API integration through the server proxy
+const callReplicate = async (prompt: string, imageUrl: string, signal?: AbortSignal): Promise<string> => {
+    const keyHeaders = providerKeyHeaders('replicate');
+    signal?.throwIfAborted();
+
+    // Cancel the prediction on Replicate's side if the caller gives up
+    const cancelPrediction = (prediction: { urls?: { cancel?: string } }) => {
+        if (!prediction.urls?.cancel) return;
+        fetch(`/api/replicate${prediction.urls.cancel.replace('https://api.replicate.com', '')}`, {
+            method: 'POST',
+            headers: keyHeaders
+        }).catch(cancelError => console.warn('Failed to cancel Replicate prediction:', cancelError));
+    };
+
+    // The create request is not tied to the signal: once it is sent, a billed prediction may be running
+    // upstream, and only the response tells which one to cancel
+    const creation = (async () => {
+        const predictionResponse = await fetchFromProvider('Replicate', '/api/replicate/v1/models/google/nano-banana/predictions', {
             method: 'POST',
             headers: {
-                'Authorization': `Bearer ${apiKey}`,
+                ...keyHeaders,
                 'Content-Type': 'application/json',
                 'Prefer': 'wait'
             },
@@ -131,20 +227,33 @@ const callReplicate = async (prompt: string, imageUrl: string): Promise<string>
                 input: {
                     prompt: prompt,
                     image_input: [imageUrl],
-                    output_format: "jpg"
+                    output_format: getSettings().losslessOutput ? "png" : "jpg"
                 }
             })
         });
 
         if (!predictionResponse.ok) {
             const errorText = await predictionResponse.text();
-            throw new Error(`Replicate API request failed: ${predictionResponse.status} ${predictionResponse.statusText} - ${errorText}`);
+            throw errorFromHttpStatus(predictionResponse.status, `Replicate API request failed: ${predictionResponse.status} ${predictionResponse.statusText} - ${errorText}`, {
+                provider: 'Replicate',
+                retryAfter: predictionResponse.headers.get('Retry-After')
+            });
         }
 
-        const prediction = await predictionResponse.json();
+        return await predictionResponse.json();
+    })();
+
+    // Registered before the prediction exists, so an abort during creation cancels it once its id is known
+    const onAbort = () => {
+        creation.then(cancelPrediction).catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        const prediction = await untilAborted(creation, signal);
         
         if (prediction.error) {
-            throw new Error(`Replicate model error: ${prediction.error}`);
+            throw replicatePredictionError(prediction.error);
         }
 
         // If we get output immediately (with Prefer: wait header) and it's completed
@@ -156,38 +265,37 @@ const callReplicate = async (prompt: string, imageUrl: string): Promise<string>
             } else if (Array.isArray(prediction.output) && prediction.output[0]) {
                 imageUrl = prediction.output[0];
             } else {
-                throw new Error('No valid output URL found in completed prediction');
+                throw new InvalidOutputError('No valid output URL found in completed prediction', { provider: 'Replicate' });
             }
             
             // Convert image URL to data URL
-            return await convertUrlToDataUrl(imageUrl);
+            return await convertUrlToDataUrl(replicateOutputUrl(imageUrl), 'Replicate', signal);
         }
 
         // If status is processing or starting, poll for completion
         if (prediction.status === 'processing' || prediction.status === 'starting') {
             if (!prediction.urls || !prediction.urls.get) {
-                throw new Error('No polling URL provided by Replicate');
+                throw new InvalidOutputError('No polling URL provided by Replicate', { provider: 'Replicate' });
             }
 
             let attempts = 0;
             const maxAttempts = 60; // 60 seconds max for processing
             
             while (attempts < maxAttempts) {
-                await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
-                
-                const statusResponse = await fetch(`/api/replicate${prediction.urls.get.replace('https://api.replicate.com', '')}`, {
-                    headers: {
-                        'Authorization': `Bearer ${apiKey}`
-                    }
+                await delay(1000, signal); // Wait 1 second
+            
+                const statusResponse = await fetchFromProvider('Replicate', `/api/replicate${prediction.urls.get.replace('https://api.replicate.com', '')}`, {
+                    headers: keyHeaders,
+                    signal
                 });
-                
+            
                 if (!statusResponse.ok) {
-                    throw new Error(`Failed to check prediction status: ${statusResponse.status}`);
+                    throw errorFromHttpStatus(statusResponse.status, `Failed to check prediction status: ${statusResponse.status}`, { provider: 'Replicate' });
                 }
-                
+            
                 const status = await statusResponse.json();
                 console.log(`Replicate status check ${attempts + 1}: ${status.status}`);
-                
+            
                 if (status.status === 'succeeded' && status.output) {
                     // Output can be a string URL directly or an array
                     let imageUrl: string;
@@ -196,96 +304,175 @@ const callReplicate = async (prompt: string, imageUrl: string): Promise<string>
                     } else if (Array.isArray(status.output) && status.output[0]) {
                         imageUrl = status.output[0];
                     } else {
-                        throw new Error('No valid output URL found in completed prediction');
+                        throw new InvalidOutputError('No valid output URL found in completed prediction', { provider: 'Replicate' });
                     }
-                    
+                
                     // Convert image URL to data URL
-                    return await convertUrlToDataUrl(imageUrl);
+                    return await convertUrlToDataUrl(replicateOutputUrl(imageUrl), 'Replicate', signal);
                 }
-                
+            
                 if (status.status === 'failed') {
-                    throw new Error(`Replicate prediction failed: ${status.error || 'Unknown error'}`);
+                    throw replicatePredictionError(status.error);
                 }
-                
+            
                 if (status.status === 'canceled') {
-                    throw new Error('Replicate prediction was canceled');
+                    throw new ImageGenerationError('Replicate prediction was canceled', 'unknown', { provider: 'Replicate' });
                 }
-                
+            
                 attempts++;
             }
             
-            throw new Error('Replicate prediction timed out after 60 seconds');
+            cancelPrediction(prediction);
+            throw new GenerationTimeoutError('Replicate prediction timed out after 60 seconds', { provider: 'Replicate' });
         }
 
         // Handle other statuses
         if (prediction.status === 'failed') {
-            throw new Error(`Replicate prediction failed: ${prediction.error || 'Unknown error'}`);
+            throw replicatePredictionError(prediction.error);
         }
 
-        throw new Error('Unexpected response format from Replicate API');
+        throw new InvalidOutputError('Unexpected response format from Replicate API', { provider: 'Replicate' });
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Replicate API error:', error);
-        throw new Error(`Replicate API failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw toImageGenerationError(error, 'Replicate');
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
     }
 };
 
-// Multi-provider image generation with fallback
-const generateImageWithFallback = async (prompt: string, imageUrl: string, context: string): Promise<string> => {
-    // Try Replicate first (primary)
-    try {
-        console.log(`Attempting ${context} with Replicate...`);
-        return await callReplicate(prompt, imageUrl);
-    } catch (replicateError) {
-        console.warn(`Replicate failed for ${context}:`, replicateError);
-        
-        // Fallback to OpenRouter
-        try {
-            console.log(`Falling back to OpenRouter for ${context}...`);
-            const messages = [
-                {
-                    role: 'user',
-                    content: [
-                        {
-                            type: 'text',
-                            text: prompt
-                        },
-                        {
-                            type: 'image_url',
-                            image_url: {
-                                url: imageUrl
-                            }
-                        }
-                    ]
+const PLACEHOLDER_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+// Replicate (google/nano-banana): primary provider, one input image per request
+const replicateProvider: ImageProvider = {
+    id: 'replicate',
+    name: 'Replicate',
+    capabilities: {
+        multiImageInput: false,
+        mask: false,
+        maxResolution: 1024
+    },
+    isAvailable: () => isProviderConfigured('replicate'),
+    generate: async ({ prompt, images, signal }) => {
+        // Replicate needs an input image, so text-only requests use a blank placeholder
+        return await callReplicate(prompt, images[0] || PLACEHOLDER_IMAGE, signal);
+    }
+};
+
+// OpenRouter (Gemini 2.5 Flash Image): fallback provider, accepts several images
+const openRouterProvider: ImageProvider = {
+    id: 'openrouter',
+    name: 'OpenRouter',
+    capabilities: {
+        multiImageInput: true,
+        mask: true,
+        maxResolution: 1024
+    },
+    isAvailable: () => isProviderConfigured('openrouter'),
+    generate: async ({ prompt, images, mask, context, signal }) => {
+        const content: any[] = [
+            {
+                type: 'text',
+                text: prompt
+            }
+        ];
+
+        // The mask goes last, which is where the prompt says to find it
+        [...images, ...(mask ? [mask] : [])].forEach(imageUrl => {
+            content.push({
+                type: 'image_url',
+                image_url: {
+                    url: imageUrl
                 }
-            ];
+            });
+        });
 
-            const response = await callOpenRouter(messages);
-            return handleOpenRouterResponse(response, context);
-        } catch (openRouterError) {
-            console.error(`Both providers failed for ${context}:`, { replicateError, openRouterError });
-            throw new Error(`All image generation providers failed. Replicate: ${replicateError instanceof Error ? replicateError.message : 'Unknown error'}. OpenRouter: ${openRouterError instanceof Error ? openRouterError.message : 'Unknown error'}`);
-        }
+        const messages = [
+            {
+                role: 'user',
+                content
+            }
+        ];
+
+        const response = await callOpenRouter(messages, signal);
+        return handleOpenRouterResponse(response, context);
     }
 };
 
+registerImageProvider(replicateProvider, 10);
+registerImageProvider(openRouterProvider, 20);
+registerImageProvider(mockProvider, 1000);
+
+// The mock provider replaces the network providers entirely when selected
+const applyProviderMode = (settings: Settings) => {
+    setPreferredProvider(settings.providerMode === 'mock' ? mockProvider.id : null);
+};
+applyProviderMode(getSettings());
+subscribeSettings(applyProviderMode);
+
+// Provider availability depends on the server config, so load it before the first request
+const generate = async (request: ImageGenerationRequest): Promise<ImageGenerationResult> => {
+    await loadServerConfig();
+    return await generateWithProviders(request);
+};
+
+export interface EditImageOptions {
+    // Upload only a padded tile around the edit region and paste the result back
+    regionCrop?: boolean;
+    // Feather radius the result will be blended with, so the tile covers the whole blend area
+    feather?: number;
+    // Overrides for the default retry behaviour
+    retry?: Partial<RetryOptions>;
+}
+
+// Generates from a single source image and brings the result back to the source's size
+const generateFromSource = async (request: ImageGenerationRequest): Promise<ImageGenerationResult> => {
+    const result = await generate(request);
+    const format = getSettings().losslessOutput ? 'png' : 'jpeg';
+    return { ...result, imageUrl: await normalizeImageSize(result.imageUrl, request.images[0], format) };
+};
+
 /**
  * Generates an edited image using generative AI based on a text prompt and a specific point.
  * @param originalImage The original image file.
  * @param userPrompt The text prompt describing the desired edit.
- * @param hotspot The {x, y} coordinates on the image to focus the edit.
- * @returns A promise that resolves to the data URL of the edited image.
+ * @param region Where to edit: the {x, y} hotspot and, optionally, a painted mask.
+ * @param signal Optional AbortSignal to cancel the generation.
+ * @param options Optional region-crop and retry settings.
+ * @returns A promise that resolves to the edited image, at the size of the original, and the provider that produced it.
  */
 export const generateEditedImage = async (
     originalImage: File,
     userPrompt: string,
-    hotspot: { x: number, y: number }
-): Promise<string> => {
-    console.log('Starting generative edit at:', hotspot);
+    region: EditRegion,
+    signal?: AbortSignal,
+    options: EditImageOptions = {}
+): Promise<ImageGenerationResult> => {
+    console.log('Starting generative edit at:', region.hotspot, region.mask ? 'with mask' : '');
     
-    const imageDataUrl = await fileToDataUrl(originalImage);
+    const fullImageUrl = await fileToDataUrl(originalImage);
+    let imageDataUrl = fullImageUrl;
+    let tile: Rect | null = null;
+
+    if (options.regionCrop) {
+        const image = await loadImage(fullImageUrl);
+        const { naturalWidth: width, naturalHeight: height } = image;
+        const candidate = getEditTile(width, height, region, options.feather ?? 0);
+        // Only crop when the tile is actually smaller than the image
+        if (candidate.width < width || candidate.height < height) {
+            tile = candidate;
+            imageDataUrl = await cropImage(fullImageUrl, tile);
+            region = await cropRegion(region, tile);
+            console.log(`Uploading ${tile.width}x${tile.height} tile at (${tile.x}, ${tile.y}) instead of ${width}x${height} image`);
+        }
+    }
+
+    const { hotspot, mask } = region;
     const prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request.
 User Request: "${userPrompt}"
-Edit Location: Focus on the area around pixel coordinates (x: ${hotspot.x}, y: ${hotspot.y}).
+Edit Location: ${mask
+    ? `Edit only the painted region, centred around pixel coordinates (x: ${hotspot.x}, y: ${hotspot.y}).`
+    : `Focus on the area around pixel coordinates (x: ${hotspot.x}, y: ${hotspot.y}).`}
 
 Editing Guidelines:
 - The edit must be realistic and blend seamlessly with the surrounding area.
@@ -297,19 +484,34 @@ Safety & Ethics Policy:
 
 Output: Return ONLY the final edited image. Do not return text.`;
 
-    return await generateImageWithFallback(prompt, imageDataUrl, 'edit');
+    const result = await generateFromSource({
+        prompt,
+        images: [imageDataUrl],
+        mask: mask?.dataUrl,
+        maskBounds: mask?.bounds,
+        hotspot,
+        context: 'edit',
+        signal,
+        retry: options.retry
+    });
+
+    return tile ? { ...result, imageUrl: await pasteTile(fullImageUrl, result.imageUrl, tile) } : result;
 };
 
 /**
  * Generates an image with a filter applied using generative AI.
  * @param originalImage The original image file.
  * @param filterPrompt The text prompt describing the desired filter.
- * @returns A promise that resolves to the data URL of the filtered image.
+ * @param signal Optional AbortSignal to cancel the generation.
+ * @param retry Optional overrides for the default retry behaviour.
+ * @returns A promise that resolves to the filtered image and the provider that produced it.
  */
 export const generateFilteredImage = async (
     originalImage: File,
     filterPrompt: string,
-): Promise<string> => {
+    signal?: AbortSignal,
+    retry?: Partial<RetryOptions>
+): Promise<ImageGenerationResult> => {
     console.log(`Starting filter generation: ${filterPrompt}`);
     
     const imageDataUrl = await fileToDataUrl(originalImage);
@@ -322,19 +524,23 @@ Safety & Ethics Policy:
 
 Output: Return ONLY the final filtered image. Do not return text.`;
 
-    return await generateImageWithFallback(prompt, imageDataUrl, 'filter');
+    return await generateFromSource({ prompt, images: [imageDataUrl], context: 'filter', signal, retry });
 };
 
 /**
  * Generates an image with a global adjustment applied using generative AI.
  * @param originalImage The original image file.
  * @param adjustmentPrompt The text prompt describing the desired adjustment.
- * @returns A promise that resolves to the data URL of the adjusted image.
+ * @param signal Optional AbortSignal to cancel the generation.
+ * @param retry Optional overrides for the default retry behaviour.
+ * @returns A promise that resolves to the adjusted image and the provider that produced it.
  */
 export const generateAdjustedImage = async (
     originalImage: File,
     adjustmentPrompt: string,
-): Promise<string> => {
+    signal?: AbortSignal,
+    retry?: Partial<RetryOptions>
+): Promise<ImageGenerationResult> => {
     console.log(`Starting global adjustment generation: ${adjustmentPrompt}`);
     
     const imageDataUrl = await fileToDataUrl(originalImage);
@@ -351,19 +557,21 @@ Safety & Ethics Policy:
 
 Output: Return ONLY the final adjusted image. Do not return text.`;
 
-    return await generateImageWithFallback(prompt, imageDataUrl, 'adjustment');
+    return await generateFromSource({ prompt, images: [imageDataUrl], context: 'adjustment', signal, retry });
 };
 
 /**
  * Generates an image based on text prompt and multiple reference images for chat mode.
  * @param userPrompt The text prompt describing the desired image.
  * @param referenceImages Array of reference image files.
- * @returns A promise that resolves to the data URL of the generated image.
+ * @param signal Optional AbortSignal to cancel the generation.
+ * @returns A promise that resolves to the generated image and the provider that produced it.
  */
 export const generateChatImage = async (
     userPrompt: string,
-    referenceImages: File[]
-): Promise<string> => {
+    referenceImages: File[],
+    signal?: AbortSignal
+): Promise<ImageGenerationResult> => {
     console.log(`Starting chat image generation with ${referenceImages.length} reference images`);
     
     // Convert all reference images to data URLs
@@ -388,55 +596,5 @@ Safety & Ethics Policy:
 
 Output: Return ONLY the final generated image. Do not return text.`;
 
-    // Try Replicate first (primary) with multi-image support
-    try {
-        console.log(`Attempting chat generation with Replicate...`);
-        
-        // For Replicate, we'll use the first image as primary and include others in prompt if multiple
-        const primaryImageUrl = imageDataUrls[0];
-        let enhancedPrompt = prompt;
-        
-        if (imageDataUrls.length > 1) {
-            enhancedPrompt += `\n\nNote: User has provided ${imageDataUrls.length} reference images. Please consider all of them for context and style reference.`;
-        }
-        
-        return await callReplicate(enhancedPrompt, primaryImageUrl || 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==');
-    } catch (replicateError) {
-        console.warn(`Replicate failed for chat generation:`, replicateError);
-        
-        // Fallback to OpenRouter with multi-image support
-        try {
-            console.log(`Falling back to OpenRouter for chat generation...`);
-            
-            const content: any[] = [
-                {
-                    type: 'text',
-                    text: prompt
-                }
-            ];
-            
-            // Add all reference images to the content
-            imageDataUrls.forEach((imageUrl, index) => {
-                content.push({
-                    type: 'image_url',
-                    image_url: {
-                        url: imageUrl
-                    }
-                });
-            });
-            
-            const messages = [
-                {
-                    role: 'user',
-                    content
-                }
-            ];
-
-            const response = await callOpenRouter(messages);
-            return handleOpenRouterResponse(response, 'chat');
-        } catch (openRouterError) {
-            console.error(`Both providers failed for chat generation:`, { replicateError, openRouterError });
-            throw new Error(`Chat image generation failed. Replicate: ${replicateError instanceof Error ? replicateError.message : 'Unknown error'}. OpenRouter: ${openRouterError instanceof Error ? openRouterError.message : 'Unknown error'}`);
-        }
-    }
-};
\ No newline at end of file
+    return await generate({ prompt, images: imageDataUrls, context: 'chat', signal });
+};
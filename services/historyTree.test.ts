@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    addHistoryNode,
+    createHistoryTree,
+    getAlignedAncestor,
+    getChildren,
+    getPathToNode,
+    getRedoTarget,
+    getUndoTarget,
+    hasGeometryChangeBetween,
+    jumpToNode,
+} from './historyTree';
+import { HistoryEntry, HistoryOperation, HistoryTree } from '../types';
+
+let clock = 0;
+const entry = (type: HistoryOperation): HistoryEntry => ({
+    image: new File(['pixels'], `${type}.png`, { type: 'image/png' }),
+    type,
+    timestamp: ++clock,
+});
+
+// Builds a history step by step, keeping track of the latest tree
+const history = () => {
+    let tree = createHistoryTree(entry('original'));
+    return {
+        root: tree.rootId!,
+        get tree() { return tree; },
+        add: (type: HistoryOperation, parentId = tree.currentId!) => {
+            tree = addHistoryNode(tree, entry(type), parentId);
+            return tree.currentId!;
+        },
+        jump: (id: string) => {
+            tree = jumpToNode(tree, id);
+        },
+    };
+};
+
+test('undo and redo follow the most recently visited branch', () => {
+    const h = history();
+    const first = h.add('filter');
+    const second = h.add('adjust', h.root);
+
+    assert.deepEqual(getChildren(h.tree, h.root).map(node => node.id), [first, second]);
+    assert.equal(getUndoTarget(h.tree), h.root);
+
+    h.jump(h.root);
+    assert.equal(getRedoTarget(h.tree), second);
+    h.jump(first);
+    h.jump(h.root);
+    assert.equal(getRedoTarget(h.tree), first);
+    assert.equal(getUndoTarget(h.tree), null);
+});
+
+test('paths run from the root to the node', () => {
+    const h = history();
+    const filter = h.add('filter');
+    const adjust = h.add('adjust');
+    assert.deepEqual(getPathToNode(h.tree, adjust).map(node => node.id), [h.root, filter, adjust]);
+});
+
+test('adding to a missing parent starts a new tree', () => {
+    const tree = addHistoryNode(createHistoryTree(entry('original')), entry('filter'), 'missing');
+    assert.equal(Object.keys(tree.nodes).length, 1);
+    assert.equal(tree.rootId, tree.currentId);
+});
+
+test('geometry changes between nodes break alignment', () => {
+    const h = history();
+    const filter = h.add('filter');
+    const crop = h.add('crop');
+    const retouch = h.add('retouch');
+    const adjust = h.add('adjust', filter);
+
+    assert.equal(hasGeometryChangeBetween(h.tree, h.root, filter), false);
+    // Sibling branches line up as long as neither side moved pixels
+    assert.equal(hasGeometryChangeBetween(h.tree, adjust, filter), false);
+    assert.equal(hasGeometryChangeBetween(h.tree, h.root, retouch), true);
+    assert.equal(hasGeometryChangeBetween(h.tree, crop, retouch), false);
+    assert.equal(hasGeometryChangeBetween(h.tree, adjust, retouch), true);
+});
+
+test('chat imports and unrelated nodes never line up', () => {
+    const h = history();
+    const imported = h.add('chat-import');
+    assert.equal(hasGeometryChangeBetween(h.tree, h.root, imported), true);
+
+    // A node from another history shares no ancestor with this one
+    const other = createHistoryTree(entry('original'));
+    const merged: HistoryTree = { ...h.tree, nodes: { ...h.tree.nodes, ...other.nodes } };
+    assert.equal(hasGeometryChangeBetween(merged, h.root, other.rootId!), true);
+});
+
+test('the aligned ancestor is the last geometry change on the path', () => {
+    const h = history();
+    const filter = h.add('filter');
+    assert.equal(getAlignedAncestor(h.tree, filter), h.root);
+    assert.equal(getAlignedAncestor(h.tree, h.root), null);
+
+    const transform = h.add('transform');
+    assert.equal(getAlignedAncestor(h.tree, transform), null);
+    const retouch = h.add('retouch');
+    assert.equal(getAlignedAncestor(h.tree, retouch), transform);
+});
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Branching edit history. All functions are pure and return a new tree,
+// so they can be used directly with React state setters.
+
+import { HistoryEntry, HistoryNode, HistoryOperation, HistoryTree } from '../types';
+
+let nextId = 0;
+
+/**
+ * Creates a unique id for a history node.
+ */
+export const createNodeId = (): string => `node-${Date.now()}-${nextId++}`;
+
+export const historyLabels: Record<HistoryOperation, string> = {
+    'original': 'Original',
+    'retouch': 'Retouch',
+    'filter': 'Filter',
+    'adjust': 'Adjust',
+    'crop': 'Crop',
+    'transform': 'Rotate / Flip',
+    'chat-import': 'Chat Import',
+};
+
+export const emptyHistoryTree: HistoryTree = { nodes: {}, rootId: null, currentId: null, activeChild: {} };
+
+// Marks every node on the path to `id` as the active child of its parent
+const activatePath = (tree: HistoryTree, id: string): Record<string, string> => {
+    const activeChild = { ...tree.activeChild };
+    let node = tree.nodes[id];
+    while (node?.parentId) {
+        activeChild[node.parentId] = node.id;
+        node = tree.nodes[node.parentId];
+    }
+    return activeChild;
+};
+
+/**
+ * Starts a new history with a single root entry.
+ * @param entry The uploaded or imported image and its metadata.
+ */
+export const createHistoryTree = (entry: HistoryEntry): HistoryTree => {
+    const root: HistoryNode = { ...entry, id: createNodeId(), parentId: null };
+    return { nodes: { [root.id]: root }, rootId: root.id, currentId: root.id, activeChild: {} };
+};
+
+/**
+ * Adds an entry as a child of a node (the current one by default) and makes it current.
+ * If that node already has children, this starts a new branch.
+ * @param tree The history tree.
+ * @param entry The new image and its metadata.
+ * @param parentId The node the entry was produced from.
+ * @param id The new node's id, for callers that need to know it before the state updates.
+ */
+export const addHistoryNode = (tree: HistoryTree, entry: HistoryEntry, parentId = tree.currentId, id = createNodeId()): HistoryTree => {
+    if (!parentId || !tree.nodes[parentId]) {
+        return createHistoryTree(entry);
+    }
+    const node: HistoryNode = { ...entry, id, parentId };
+    const next = { ...tree, nodes: { ...tree.nodes, [node.id]: node }, currentId: node.id };
+    return { ...next, activeChild: activatePath(next, node.id) };
+};
+
+/**
+ * Makes a node current, keeping the rest of the tree intact.
+ * @param tree The history tree.
+ * @param id The node to jump to.
+ */
+export const jumpToNode = (tree: HistoryTree, id: string): HistoryTree => {
+    if (!tree.nodes[id]) return tree;
+    return { ...tree, currentId: id, activeChild: activatePath(tree, id) };
+};
+
+/**
+ * Returns the node an undo leads to, or null at the root.
+ */
+export const getUndoTarget = (tree: HistoryTree): string | null => {
+    return tree.currentId ? tree.nodes[tree.currentId]?.parentId ?? null : null;
+};
+
+/**
+ * Returns the node a redo leads to, or null when the current node has no children.
+ */
+export const getRedoTarget = (tree: HistoryTree): string | null => {
+    return tree.currentId ? tree.activeChild[tree.currentId] ?? null : null;
+};
+
+/**
+ * Returns the children of a node, oldest first.
+ */
+export const getChildren = (tree: HistoryTree, id: string): HistoryNode[] => {
+    return Object.values(tree.nodes)
+        .filter(node => node.parentId === id)
+        .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Returns the nodes from the root to the given node, inclusive.
+ */
+export const getPathToNode = (tree: HistoryTree, id: string): HistoryNode[] => {
+    const path: HistoryNode[] = [];
+    let node: HistoryNode | undefined = tree.nodes[id];
+    while (node) {
+        path.unshift(node);
+        node = node.parentId ? tree.nodes[node.parentId] : undefined;
+    }
+    return path;
+};
+
+// Steps that move pixels, so images before and after them no longer line up. An image imported
+// from chat is unrelated to its parent, so it counts as one too.
+const isGeometryStep = (node: HistoryNode): boolean =>
+    node.type === 'crop' || node.type === 'transform' || node.type === 'chat-import';
+
+/**
+ * Returns true if a crop, straighten, rotation or chat import lies between two nodes, i.e. on
+ * the path from either node up to their closest common ancestor. Nodes without a common
+ * ancestor never line up.
+ */
+export const hasGeometryChangeBetween = (tree: HistoryTree, a: string, b: string): boolean => {
+    const pathA = getPathToNode(tree, a);
+    const pathB = getPathToNode(tree, b);
+    let shared = 0;
+    while (shared < pathA.length && shared < pathB.length && pathA[shared].id === pathB[shared].id) shared++;
+    if (shared === 0) return true;
+    return [...pathA.slice(shared), ...pathB.slice(shared)].some(isGeometryStep);
+};
+
+/**
+ * Returns the oldest ancestor of a node that still lines up with it pixel for pixel,
+ * or null if the node itself changed the geometry.
+ */
+export const getAlignedAncestor = (tree: HistoryTree, id: string): string | null => {
+    const path = getPathToNode(tree, id);
+    let index = path.length - 1;
+    while (index > 0 && !isGeometryStep(path[index])) index--;
+    return index < path.length - 1 ? path[index].id : null;
+};
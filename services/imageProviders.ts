@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Image provider abstraction and registry.
+// Providers are tried in registry order until one of them returns an image.
+
+import { AllProvidersFailedError, AuthMissingError, ImageGenerationError, toImageGenerationError } from './errors';
+import { RetryOptions, withRetry } from './retry';
+import { Rect } from '../types';
+
+export interface ImageProviderCapabilities {
+    // Whether the provider accepts more than one input image per request
+    multiImageInput: boolean;
+    // Whether the provider accepts a separate mask image for inpainting
+    mask: boolean;
+    // Longest edge (in pixels) the provider accepts or returns
+    maxResolution: number;
+}
+
+export interface ImageGenerationRequest {
+    prompt: string;
+    // Input images as data URLs; may be empty for text-only generation
+    images: string[];
+    // Optional inpainting mask as a data URL (white = editable area)
+    mask?: string;
+    // Bounding box of the masked area in the first input image
+    maskBounds?: Rect;
+    // Pixel coordinates of a localized edit in the first input image
+    hotspot?: { x: number, y: number };
+    // Short label used for logging and error messages, e.g. 'edit' or 'chat'
+    context: string;
+    // Aborts the request, including any provider-side polling
+    signal?: AbortSignal;
+    // Overrides for the default retry behaviour of each provider attempt
+    retry?: Partial<RetryOptions>;
+}
+
+export interface ImageGenerationResult {
+    // Data URL of the generated image
+    imageUrl: string;
+    // Name of the provider that produced it
+    provider: string;
+}
+
+export interface ImageProvider {
+    id: string;
+    name: string;
+    capabilities: ImageProviderCapabilities;
+    // Returns false when the provider is not configured (e.g. missing key)
+    isAvailable?: () => boolean;
+    // Resolves to a data URL of the generated image
+    generate: (request: ImageGenerationRequest) => Promise<string>;
+}
+
+interface RegisteredProvider {
+    provider: ImageProvider;
+    priority: number;
+}
+
+const registry = new Map<string, RegisteredProvider>();
+
+// When set, only this provider is used and there is no fallback
+let preferredProviderId: string | null = null;
+
+/**
+ * Registers an image provider. Providers with a lower priority are tried first.
+ * Registering a provider with an existing id replaces it.
+ * @param provider The provider to register.
+ * @param priority The position in the fallback order (lower runs earlier).
+ */
+export const registerImageProvider = (provider: ImageProvider, priority: number = 100): void => {
+    registry.set(provider.id, { provider, priority });
+};
+
+/**
+ * Removes a provider from the registry.
+ * @param id The id of the provider to remove.
+ */
+export const unregisterImageProvider = (id: string): void => {
+    registry.delete(id);
+};
+
+/**
+ * Returns the registered providers in fallback order.
+ */
+export const getImageProviders = (): ImageProvider[] => {
+    return Array.from(registry.values())
+        .sort((a, b) => a.priority - b.priority)
+        .map(entry => entry.provider);
+};
+
+/**
+ * Restricts generation to a single provider, or restores the normal fallback
+ * order when called with null.
+ * @param id The id of the provider to use exclusively.
+ */
+export const setPreferredProvider = (id: string | null): void => {
+    preferredProviderId = id;
+};
+
+/**
+ * Returns a provider by id, if registered.
+ */
+export const getImageProvider = (id: string): ImageProvider | undefined => {
+    return registry.get(id)?.provider;
+};
+
+/**
+ * Returns true if the error was caused by an aborted request.
+ */
+export const isAbortError = (error: unknown): boolean => {
+    return error instanceof DOMException && error.name === 'AbortError';
+};
+
+// Adapts a request to a provider's capabilities before it is sent
+const adaptRequest = (provider: ImageProvider, request: ImageGenerationRequest): ImageGenerationRequest => {
+    let { prompt, images, mask } = request;
+
+    if (!provider.capabilities.multiImageInput && images.length > 1) {
+        prompt += `\n\nNote: User has provided ${images.length} reference images. Please consider all of them for context and style reference.`;
+        images = images.slice(0, 1);
+    }
+
+    if (mask && provider.capabilities.mask) {
+        prompt += `\n\nMask: The last input image is a mask of the edit area. Only change pixels where the mask is white; pixels where it is black must stay identical to the original.`;
+    } else if (mask) {
+        // Without mask support, describe the painted region in the prompt instead
+        const b = request.maskBounds;
+        if (b) {
+            prompt += `\n\nEdit Region: Restrict the edit to the rectangle from (x: ${b.x}, y: ${b.y}) to (x: ${b.x + b.width}, y: ${b.y + b.height}) in pixel coordinates. Everything outside this rectangle must stay identical to the original.`;
+        }
+        mask = undefined;
+    }
+
+    return { ...request, prompt, images, mask };
+};
+
+/**
+ * Runs a generation request through the registered providers in order,
+ * falling back to the next provider when one fails.
+ * @param request The generation request.
+ * @returns A promise that resolves to the generated image and the provider that produced it.
+ */
+export const generateWithProviders = async (request: ImageGenerationRequest): Promise<ImageGenerationResult> => {
+    const candidates = preferredProviderId
+        ? getImageProviders().filter(p => p.id === preferredProviderId)
+        : getImageProviders();
+    const providers = candidates.filter(p => !p.isAvailable || p.isAvailable());
+    if (providers.length === 0) {
+        throw new AuthMissingError(`No image generation providers are configured for ${request.context}`);
+    }
+
+    const failures: ImageGenerationError[] = [];
+
+    for (const provider of providers) {
+        request.signal?.throwIfAborted();
+        try {
+            console.log(`Attempting ${request.context} with ${provider.name}...`);
+            const adapted = adaptRequest(provider, request);
+            const imageUrl = await withRetry(() => provider.generate(adapted), request.retry, request.signal);
+            return { imageUrl, provider: provider.name };
+        } catch (error) {
+            // A cancelled request must not fall through to the next provider
+            if (isAbortError(error)) throw error;
+            console.warn(`${provider.name} failed for ${request.context}:`, error);
+            failures.push(toImageGenerationError(error, provider.name));
+        }
+    }
+
+    console.error(`All providers failed for ${request.context}:`, failures);
+    if (failures.length === 1) {
+        throw failures[0];
+    }
+    const details = failures
+        .map(error => `${error.provider ?? 'Unknown provider'}: ${error.message}`)
+        .join('. ');
+    throw new AllProvidersFailedError(`All image generation providers failed. ${details}`, failures);
+};
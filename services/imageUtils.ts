@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Canvas helpers shared by local image operations
+
+/**
+ * Loads an image from a URL (object URL or data URL).
+ * @param src The image source.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise<HTMLImageElement>((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Failed to load image'));
+        image.src = src;
+    });
+};
+
+/**
+ * Returns the file extension, without the dot, for an image MIME type. Unknown types get png.
+ * @param mimeType The MIME type, e.g. "image/jpeg".
+ */
+export const extensionForMimeType = (mimeType: string): string => {
+    switch (mimeType) {
+        case 'image/jpeg': return 'jpg';
+        case 'image/webp': return 'webp';
+        case 'image/avif': return 'avif';
+        default: return 'png';
+    }
+};
+
+/**
+ * Creates a canvas of the given size along with its 2D context.
+ * @param width The canvas width in pixels.
+ * @param height The canvas height in pixels.
+ */
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not create a 2D canvas context');
+    }
+    return { canvas, ctx };
+};
+
+/**
+ * Draws an image onto a new canvas at its natural size.
+ * @param image The loaded image.
+ */
+export const imageToCanvas = (image: HTMLImageElement): { canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D } => {
+    const result = createCanvas(image.naturalWidth, image.naturalHeight);
+    result.ctx.drawImage(image, 0, 0);
+    return result;
+};
+
+// Aspect ratios closer than this are rescaled quietly; larger differences are cropped with a warning
+const ASPECT_TOLERANCE = 0.01;
+
+/**
+ * Brings a generated image back to the size of its source image.
+ * The output is scaled to cover the source frame and centred, so pixel coordinates stay
+ * registered with the source for later composites, blends and diffs. When the aspect
+ * ratios differ, the overhanging edges are cropped rather than stretched or letterboxed,
+ * and a warning is logged.
+ * @param outputUrl Data URL of the generated image.
+ * @param sourceUrl URL of the image the output was generated from.
+ * @param format Encoding of the normalized image.
+ * @returns The output unchanged when it already has the source size, else a re-encoded data URL.
+ */
+export const normalizeImageSize = async (
+    outputUrl: string,
+    sourceUrl: string,
+    format: 'png' | 'jpeg' = 'png'
+): Promise<string> => {
+    const [output, source] = await Promise.all([loadImage(outputUrl), loadImage(sourceUrl)]);
+    const width = source.naturalWidth;
+    const height = source.naturalHeight;
+    if (output.naturalWidth === width && output.naturalHeight === height) {
+        return outputUrl;
+    }
+
+    const { canvas, ctx } = createCanvas(width, height);
+    const outputAspect = output.naturalWidth / output.naturalHeight;
+    const sourceAspect = width / height;
+    if (Math.abs(outputAspect / sourceAspect - 1) <= ASPECT_TOLERANCE) {
+        console.log(`Rescaling output from ${output.naturalWidth}x${output.naturalHeight} to ${width}x${height}`);
+    } else {
+        console.warn(`Output aspect ratio differs from the source; cropping ${output.naturalWidth}x${output.naturalHeight} to fill ${width}x${height}`);
+    }
+    const scale = Math.max(width / output.naturalWidth, height / output.naturalHeight);
+    const drawWidth = output.naturalWidth * scale;
+    const drawHeight = output.naturalHeight * scale;
+    ctx.drawImage(output, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    return format === 'png' ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', 0.92);
+};
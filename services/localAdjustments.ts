@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Local colour and tone adjustments computed on the pixels, with no AI involved.
+// The same pipeline renders the live preview (on a downscaled copy) and the
+// committed history step (at full resolution).
+
+import { CurvePoint, LocalAdjustments } from '../types';
+import { loadImage, imageToCanvas } from './imageUtils';
+
+export const defaultAdjustments: LocalAdjustments = {
+    exposure: 0,
+    contrast: 0,
+    highlights: 0,
+    shadows: 0,
+    temperature: 0,
+    tint: 0,
+    saturation: 0,
+    vibrance: 0,
+    sharpen: 0,
+    curve: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+};
+
+const isIdentityCurve = (curve: CurvePoint[]) => curve.every(point => point.x === point.y);
+
+/**
+ * Returns true if the adjustments leave the image unchanged.
+ */
+export const isNeutralAdjustment = (adjustments: LocalAdjustments): boolean => {
+    const { curve, ...sliders } = adjustments;
+    return Object.values(sliders).every(value => value === 0) && isIdentityCurve(curve);
+};
+
+const sliderLabels: Record<Exclude<keyof LocalAdjustments, 'curve'>, string> = {
+    exposure: 'Exposure',
+    contrast: 'Contrast',
+    highlights: 'Highlights',
+    shadows: 'Shadows',
+    temperature: 'Temperature',
+    tint: 'Tint',
+    saturation: 'Saturation',
+    vibrance: 'Vibrance',
+    sharpen: 'Sharpen',
+};
+
+/**
+ * Summarizes the changed settings, e.g. "Exposure +0.5, Contrast +10, Tone curve".
+ */
+export const describeAdjustments = (adjustments: LocalAdjustments): string => {
+    const parts = (Object.keys(sliderLabels) as (keyof typeof sliderLabels)[])
+        .filter(key => adjustments[key] !== 0)
+        .map(key => `${sliderLabels[key]} ${adjustments[key] > 0 ? '+' : ''}${adjustments[key]}`);
+    if (!isIdentityCurve(adjustments.curve)) parts.push('Tone curve');
+    return parts.join(', ') || 'No change';
+};
+
+/**
+ * Builds a 256-entry lookup table from curve points, using monotone cubic
+ * interpolation so the curve never overshoots between points.
+ * @param points Control points sorted by x.
+ */
+export const buildCurveLut = (points: CurvePoint[]): Uint8ClampedArray => {
+    const lut = new Uint8ClampedArray(256);
+    const n = points.length;
+    if (n < 2) {
+        lut.forEach((_, i) => lut[i] = i);
+        return lut;
+    }
+
+    // Fritsch–Carlson tangents
+    const slopes: number[] = [];
+    for (let i = 0; i < n - 1; i++) {
+        slopes.push((points[i + 1].y - points[i].y) / Math.max(1e-6, points[i + 1].x - points[i].x));
+    }
+    const tangents = points.map((_, i) => {
+        if (i === 0) return slopes[0];
+        if (i === n - 1) return slopes[n - 2];
+        return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+    });
+    for (let i = 0; i < n - 1; i++) {
+        if (slopes[i] === 0) {
+            tangents[i] = tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / slopes[i];
+        const b = tangents[i + 1] / slopes[i];
+        const length = Math.hypot(a, b);
+        if (length > 3) {
+            tangents[i] = 3 / length * a * slopes[i];
+            tangents[i + 1] = 3 / length * b * slopes[i];
+        }
+    }
+
+    let segment = 0;
+    for (let x = 0; x < 256; x++) {
+        if (x <= points[0].x) {
+            lut[x] = points[0].y;
+            continue;
+        }
+        if (x >= points[n - 1].x) {
+            lut[x] = points[n - 1].y;
+            continue;
+        }
+        while (x > points[segment + 1].x) segment++;
+        const p0 = points[segment];
+        const p1 = points[segment + 1];
+        const h = p1.x - p0.x;
+        const t = (x - p0.x) / h;
+        const t2 = t * t;
+        const t3 = t2 * t;
+        lut[x] = (2 * t3 - 3 * t2 + 1) * p0.y
+            + (t3 - 2 * t2 + t) * h * tangents[segment]
+            + (-2 * t3 + 3 * t2) * p1.y
+            + (t3 - t2) * h * tangents[segment + 1];
+    }
+    return lut;
+};
+
+const toLinear = (value: number) => value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+const toSrgb = (value: number) => value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+
+// Exposure and white balance are gains in linear light, followed by contrast around mid grey
+const buildChannelLut = (gain: number, contrast: number): Float32Array => {
+    const lut = new Float32Array(256);
+    for (let i = 0; i < 256; i++) {
+        const value = toSrgb(Math.min(1, toLinear(i / 255) * gain));
+        lut[i] = (value - 0.5) * contrast + 0.5;
+    }
+    return lut;
+};
+
+// Unsharp mask with a 3×3 box blur
+const sharpen = (image: ImageData, amount: number) => {
+    const { width, height, data } = image;
+    const source = new Uint8ClampedArray(data);
+    for (let y = 0; y < height; y++) {
+        const top = Math.max(0, y - 1) * width;
+        const middle = y * width;
+        const bottom = Math.min(height - 1, y + 1) * width;
+        for (let x = 0; x < width; x++) {
+            const left = Math.max(0, x - 1);
+            const right = Math.min(width - 1, x + 1);
+            const i = (middle + x) * 4;
+            for (let c = 0; c < 3; c++) {
+                const blur = (
+                    source[(top + left) * 4 + c] + source[(top + x) * 4 + c] + source[(top + right) * 4 + c]
+                    + source[(middle + left) * 4 + c] + source[i + c] + source[(middle + right) * 4 + c]
+                    + source[(bottom + left) * 4 + c] + source[(bottom + x) * 4 + c] + source[(bottom + right) * 4 + c]
+                ) / 9;
+                data[i + c] = source[i + c] + (source[i + c] - blur) * amount;
+            }
+        }
+    }
+};
+
+/**
+ * Applies adjustments to pixel data in place.
+ * @param image The pixels to adjust.
+ * @param adjustments The adjustment settings.
+ */
+export const applyAdjustments = (image: ImageData, adjustments: LocalAdjustments): void => {
+    const data = image.data;
+    const exposureGain = Math.pow(2, adjustments.exposure);
+    const temperature = adjustments.temperature / 100;
+    const tint = adjustments.tint / 100;
+    const contrast = 1 + adjustments.contrast / 100;
+    const lutR = buildChannelLut(exposureGain * (1 + temperature * 0.3), contrast);
+    const lutG = buildChannelLut(exposureGain * (1 - tint * 0.3), contrast);
+    const lutB = buildChannelLut(exposureGain * (1 - temperature * 0.3), contrast);
+    const curve = buildCurveLut(adjustments.curve);
+    const highlights = adjustments.highlights / 100 * 0.35;
+    const shadows = adjustments.shadows / 100 * 0.35;
+    const saturation = 1 + adjustments.saturation / 100;
+    const vibrance = adjustments.vibrance / 100;
+
+    for (let i = 0; i < data.length; i += 4) {
+        let r = lutR[data[i]];
+        let g = lutG[data[i + 1]];
+        let b = lutB[data[i + 2]];
+
+        const luma = Math.min(1, Math.max(0, 0.2126 * r + 0.7152 * g + 0.0722 * b));
+        const toneShift = shadows * (1 - luma) * (1 - luma) + highlights * luma * luma;
+        r += toneShift;
+        g += toneShift;
+        b += toneShift;
+
+        // Vibrance boosts muted colours more than already saturated ones
+        const chroma = Math.min(1, Math.max(r, g, b) - Math.min(r, g, b));
+        const colorScale = saturation * (1 + vibrance * (1 - chroma));
+        const grey = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+        r = grey + (r - grey) * colorScale;
+        g = grey + (g - grey) * colorScale;
+        b = grey + (b - grey) * colorScale;
+
+        data[i] = curve[Math.round(Math.min(1, Math.max(0, r)) * 255)];
+        data[i + 1] = curve[Math.round(Math.min(1, Math.max(0, g)) * 255)];
+        data[i + 2] = curve[Math.round(Math.min(1, Math.max(0, b)) * 255)];
+    }
+
+    if (adjustments.sharpen > 0) {
+        sharpen(image, adjustments.sharpen / 100 * 1.5);
+    }
+};
+
+/**
+ * Applies adjustments to an image at full resolution.
+ * @param file The image to adjust.
+ * @param adjustments The adjustment settings.
+ * @returns A promise that resolves to the adjusted PNG.
+ */
+export const renderAdjustments = async (file: File, adjustments: LocalAdjustments): Promise<File> => {
+    const url = URL.createObjectURL(file);
+    try {
+        const { canvas, ctx } = imageToCanvas(await loadImage(url));
+        const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        applyAdjustments(image, adjustments);
+        ctx.putImageData(image, 0, 0);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) {
+            throw new Error('Could not encode the adjusted image');
+        }
+        return new File([blob], `adjusted-${Date.now()}.png`, { type: 'image/png' });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Lut3D, applyLut, builtInLuts, parseCubeLut } from './lut';
+
+// Writes the samples of a 2x2x2 .cube, red varying fastest
+const cube = (map: (rgb: number[]) => number[], header = 'LUT_3D_SIZE 2') => {
+    const lines = [header];
+    for (let b = 0; b < 2; b++) {
+        for (let g = 0; g < 2; g++) {
+            for (let r = 0; r < 2; r++) lines.push(map([r, g, b]).join(' '));
+        }
+    }
+    return lines.join('\n');
+};
+
+const identity = cube(rgb => rgb);
+const invert = cube(rgb => rgb.map(value => 1 - value));
+
+// ImageData is a browser type; the LUT only needs its pixel array
+const pixels = (...rgb: number[]) => ({ data: new Uint8ClampedArray([...rgb, 255]), width: 1, height: 1 }) as ImageData;
+
+test('parses the size, samples and title of a .cube file', () => {
+    const lut = parseCubeLut(`# Exported by a grading tool\nTITLE "Night Blue"\r\n${invert}\n`, 'night.cube');
+    assert.equal(lut.name, 'Night Blue');
+    assert.equal(lut.size, 2);
+    assert.equal(lut.data.length, 24);
+    assert.deepEqual([...lut.data.slice(0, 6)], [1, 1, 1, 0, 1, 1]);
+    assert.deepEqual(lut.domainMin, [0, 0, 0]);
+    assert.deepEqual(lut.domainMax, [1, 1, 1]);
+});
+
+test('falls back to the given name and reads domains', () => {
+    const lut = parseCubeLut(`DOMAIN_MIN 0 0 0\nDOMAIN_MAX 2 2 2\nLUT_3D_INPUT_RANGE 0 1\n${identity}`, 'graded.cube');
+    assert.equal(lut.name, 'graded.cube');
+    assert.deepEqual(lut.domainMax, [2, 2, 2]);
+});
+
+test('every parsed LUT gets its own id', () => {
+    assert.notEqual(parseCubeLut(identity, 'a').id, parseCubeLut(identity, 'a').id);
+});
+
+test('rejects files that are not usable 3D LUTs', () => {
+    assert.throws(() => parseCubeLut('0 0 0\n1 1 1', 'x'), /LUT_3D_SIZE is missing/);
+    assert.throws(() => parseCubeLut('LUT_1D_SIZE 2\n0 0 0\n1 1 1', 'x'), /1D LUTs are not supported/);
+    assert.throws(() => parseCubeLut(cube(rgb => rgb, 'LUT_3D_SIZE 1'), 'x'), /Unsupported LUT size/);
+    assert.throws(() => parseCubeLut(cube(rgb => rgb, 'LUT_3D_SIZE 512'), 'x'), /Unsupported LUT size/);
+    assert.throws(() => parseCubeLut(`${identity}\n0.5 0.5`, 'x'), /Invalid LUT data line/);
+    assert.throws(() => parseCubeLut(`DOMAIN_MAX 1 one 1\n${identity}`, 'x'), /Invalid DOMAIN_MAX/);
+    assert.throws(() => parseCubeLut(identity.split('\n').slice(0, -1).join('\n'), 'x'), /should have 8 entries but has 7/);
+});
+
+test('applies a LUT with its strength', () => {
+    const identityLut = parseCubeLut(identity, 'identity');
+    const invertLut = parseCubeLut(invert, 'invert');
+
+    const unchanged = pixels(10, 128, 250);
+    applyLut(unchanged, identityLut);
+    assert.deepEqual([...unchanged.data], [10, 128, 250, 255]);
+
+    const inverted = pixels(10, 128, 250);
+    applyLut(inverted, invertLut);
+    assert.deepEqual([...inverted.data], [245, 127, 5, 255]);
+
+    const half = pixels(0, 255, 100);
+    applyLut(half, invertLut, 0.5);
+    assert.deepEqual([...half.data], [128, 128, 128, 255]);
+});
+
+test('built-in looks are complete tables with unique ids', () => {
+    const ids = new Set(builtInLuts.map((lut: Lut3D) => lut.id));
+    assert.equal(ids.size, builtInLuts.length);
+    builtInLuts.forEach(lut => assert.equal(lut.data.length, lut.size ** 3 * 3, lut.name));
+});
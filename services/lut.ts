@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// 3D colour lookup tables: deterministic filters that give the same result on
+// every photo. Users can import LUTs in the Adobe/Resolve .cube format, and a
+// small set of film and colour-grade looks is built in.
+
+import { loadImage, imageToCanvas } from './imageUtils';
+
+export interface Lut3D {
+    id: string;
+    name: string;
+    // Number of samples along each axis
+    size: number;
+    // RGB output triples, red varying fastest, then green, then blue
+    data: Float32Array;
+    domainMin: [number, number, number];
+    domainMax: [number, number, number];
+}
+
+// .cube files allow sizes from 2 to 256; larger tables would not fit in memory comfortably
+const MAX_CUBE_SIZE = 128;
+
+let customLutCount = 0;
+
+/**
+ * Parses a LUT in the .cube format.
+ * @param text The file contents.
+ * @param fallbackName Name to use when the file has no TITLE line, usually the file name.
+ * @returns The parsed LUT.
+ */
+export const parseCubeLut = (text: string, fallbackName: string): Lut3D => {
+    let name = fallbackName;
+    let size = 0;
+    let domainMin: [number, number, number] = [0, 0, 0];
+    let domainMax: [number, number, number] = [1, 1, 1];
+    const values: number[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        if (!line) continue;
+        const [keyword, ...rest] = line.split(/\s+/);
+
+        if (keyword === 'TITLE') {
+            name = line.slice(5).trim().replace(/^"(.*)"$/, '$1') || name;
+        } else if (keyword === 'LUT_3D_SIZE') {
+            size = parseInt(rest[0], 10);
+            if (!Number.isInteger(size) || size < 2 || size > MAX_CUBE_SIZE) {
+                throw new Error(`Unsupported LUT size ${rest[0]} (expected 2 to ${MAX_CUBE_SIZE}).`);
+            }
+        } else if (keyword === 'LUT_1D_SIZE') {
+            throw new Error('1D LUTs are not supported; please use a 3D .cube LUT.');
+        } else if (keyword === 'DOMAIN_MIN' || keyword === 'DOMAIN_MAX') {
+            const domain = rest.map(Number) as [number, number, number];
+            if (domain.length !== 3 || domain.some(Number.isNaN)) {
+                throw new Error(`Invalid ${keyword} line in LUT.`);
+            }
+            if (keyword === 'DOMAIN_MIN') domainMin = domain; else domainMax = domain;
+        } else if (/^[-+.\d]/.test(keyword)) {
+            const triple = [keyword, ...rest].map(Number);
+            if (triple.length !== 3 || triple.some(Number.isNaN)) {
+                throw new Error(`Invalid LUT data line: "${line}".`);
+            }
+            values.push(...triple);
+        }
+        // Other keywords (e.g. LUT_3D_INPUT_RANGE from some tools) do not affect the result
+    }
+
+    if (!size) {
+        throw new Error('This file is not a 3D .cube LUT (LUT_3D_SIZE is missing).');
+    }
+    if (values.length !== size * size * size * 3) {
+        throw new Error(`The LUT should have ${size ** 3} entries but has ${values.length / 3}.`);
+    }
+
+    return { id: `custom-${++customLutCount}`, name, size, data: new Float32Array(values), domainMin, domainMax };
+};
+
+/**
+ * Applies a LUT to pixel data in place, with trilinear interpolation.
+ * @param image The pixels to grade.
+ * @param lut The LUT.
+ * @param strength How much of the graded result to use, from 0 to 1.
+ */
+export const applyLut = (image: ImageData, lut: Lut3D, strength = 1): void => {
+    const { size, data: table, domainMin, domainMax } = lut;
+    const data = image.data;
+    const max = size - 1;
+    const scale = domainMax.map((high, c) => max / 255 / Math.max(1e-6, high - domainMin[c]));
+    const offset = domainMin.map((low, c) => low * max / Math.max(1e-6, domainMax[c] - low));
+
+    for (let i = 0; i < data.length; i += 4) {
+        const r = Math.min(max, Math.max(0, data[i] * scale[0] - offset[0]));
+        const g = Math.min(max, Math.max(0, data[i + 1] * scale[1] - offset[1]));
+        const b = Math.min(max, Math.max(0, data[i + 2] * scale[2] - offset[2]));
+        const r0 = Math.floor(r), g0 = Math.floor(g), b0 = Math.floor(b);
+        const r1 = Math.min(max, r0 + 1), g1 = Math.min(max, g0 + 1), b1 = Math.min(max, b0 + 1);
+        const fr = r - r0, fg = g - g0, fb = b - b0;
+
+        for (let c = 0; c < 3; c++) {
+            const at = (ri: number, gi: number, bi: number) => table[((bi * size + gi) * size + ri) * 3 + c];
+            const c00 = at(r0, g0, b0) + (at(r1, g0, b0) - at(r0, g0, b0)) * fr;
+            const c10 = at(r0, g1, b0) + (at(r1, g1, b0) - at(r0, g1, b0)) * fr;
+            const c01 = at(r0, g0, b1) + (at(r1, g0, b1) - at(r0, g0, b1)) * fr;
+            const c11 = at(r0, g1, b1) + (at(r1, g1, b1) - at(r0, g1, b1)) * fr;
+            const graded = ((c00 + (c10 - c00) * fg) * (1 - fb) + (c01 + (c11 - c01) * fg) * fb) * 255;
+            data[i + c] = data[i + c] + (graded - data[i + c]) * strength;
+        }
+    }
+};
+
+/**
+ * Applies a LUT to an image at full resolution.
+ * @param file The image to grade.
+ * @param lut The LUT.
+ * @param strength How much of the graded result to use, from 0 to 1.
+ * @returns A promise that resolves to the graded PNG.
+ */
+export const renderLut = async (file: File, lut: Lut3D, strength: number): Promise<File> => {
+    const url = URL.createObjectURL(file);
+    try {
+        const { canvas, ctx } = imageToCanvas(await loadImage(url));
+        const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        applyLut(image, lut, strength);
+        ctx.putImageData(image, 0, 0);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) {
+            throw new Error('Could not encode the graded image');
+        }
+        return new File([blob], `lut-${Date.now()}.png`, { type: 'image/png' });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+type Rgb = [number, number, number];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+const luma = ([r, g, b]: Rgb) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+// Smooth S-shaped contrast curve; amount 0 leaves the value unchanged
+const sCurve = (value: number, amount: number) => mix(value, value * value * (3 - 2 * value), amount);
+
+// Samples a colour transform into a LUT
+const createLut = (id: string, name: string, transform: (rgb: Rgb) => Rgb, size = 33): Lut3D => {
+    const data = new Float32Array(size * size * size * 3);
+    let i = 0;
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                const out = transform([r / (size - 1), g / (size - 1), b / (size - 1)]);
+                data[i++] = clamp01(out[0]);
+                data[i++] = clamp01(out[1]);
+                data[i++] = clamp01(out[2]);
+            }
+        }
+    }
+    return { id, name, size, data, domainMin: [0, 0, 0], domainMax: [1, 1, 1] };
+};
+
+/**
+ * Film and colour-grade looks that ship with the app.
+ */
+export const builtInLuts: Lut3D[] = [
+    createLut('warm-film', 'Warm Film', ([r, g, b]) => [
+        sCurve(r, 0.3) * 0.96 + 0.05,
+        sCurve(g, 0.3) * 0.94 + 0.04,
+        sCurve(b, 0.2) * 0.85 + 0.05,
+    ]),
+    createLut('cool-film', 'Cool Film', ([r, g, b]) => [
+        sCurve(r, 0.25) * 0.9 + 0.03,
+        sCurve(g, 0.25) * 0.96 + 0.03,
+        sCurve(b, 0.2) * 0.92 + 0.08,
+    ]),
+    createLut('teal-orange', 'Teal & Orange', rgb => {
+        const y = luma(rgb);
+        // Shadows lean teal, highlights lean orange
+        const shadow = (1 - y) * 0.12;
+        const highlight = y * 0.1;
+        return [
+            sCurve(rgb[0], 0.3) - shadow + highlight,
+            sCurve(rgb[1], 0.3) + shadow * 0.3 + highlight * 0.3,
+            sCurve(rgb[2], 0.3) + shadow - highlight,
+        ];
+    }),
+    createLut('bleach-bypass', 'Bleach Bypass', rgb => {
+        const y = luma(rgb);
+        return rgb.map(value => sCurve(mix(value, y, 0.55), 0.6)) as Rgb;
+    }),
+    createLut('faded-matte', 'Faded Matte', rgb => {
+        const y = luma(rgb);
+        return rgb.map(value => 0.1 + mix(value, y, 0.2) * 0.82) as Rgb;
+    }),
+    createLut('cross-process', 'Cross Process', ([r, g, b]) => [
+        sCurve(r, 0.6),
+        sCurve(g, 0.4) * 1.05,
+        b * 0.7 + 0.15,
+    ]),
+    createLut('mono-contrast', 'Mono Contrast', rgb => {
+        const y = sCurve(luma(rgb), 0.7);
+        return [y, y, y];
+    }),
+    createLut('sepia', 'Sepia', rgb => {
+        const y = sCurve(luma(rgb), 0.2);
+        return [y * 1.07 + 0.04, y * 0.9 + 0.03, y * 0.68 + 0.02];
+    }),
+];
@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Edit macros: a sequence of history steps with their parameters, replayable on another image.
+// Positions are stored relative to the image (0 to 1), so a hotspot, mask or crop lands in the
+// same place on a photo of a different size.
+
+import { AiStep, BlendMode, HistoryEntry, ImageTransform, LocalAdjustments, Rect } from '../types';
+import { describeAdjustments, renderAdjustments } from './localAdjustments';
+import { Lut3D, renderLut } from './lut';
+import { renderBlend } from './blend';
+import { getStraightenedSize, renderCrop, transformImage } from './transform';
+import { loadImage, createCanvas } from './imageUtils';
+import { RetryOptions } from './retry';
+
+export type MacroStep =
+    | { type: 'retouch', prompt: string, hotspot: { x: number, y: number }, mask?: { dataUrl: string, bounds: Rect } }
+    | { type: 'filter' | 'adjust', prompt: string, blend?: { opacity: number, mode: BlendMode } }
+    | { type: 'lut', lut: { name: string, strength: number } }
+    | { type: 'local-adjust', adjustments: LocalAdjustments }
+    // The crop keeps its pixel aspect ratio on images of another shape
+    | { type: 'crop', rect: Rect, aspect: number, straighten?: number }
+    | { type: 'transform', transform: ImageTransform };
+
+export interface Macro {
+    id: string;
+    name: string;
+    steps: MacroStep[];
+    createdAt: number;
+}
+
+// Runs an AI step on an image; supplied by the editor so it uses the current provider settings
+export type GenerateStep = (step: AiStep, source: File, signal: AbortSignal, retry?: Partial<RetryOptions>) => Promise<HistoryEntry>;
+
+const getImageSize = async (file: File): Promise<{ width: number, height: number }> => {
+    const url = URL.createObjectURL(file);
+    try {
+        const image = await loadImage(url);
+        return { width: image.naturalWidth, height: image.naturalHeight };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+const toRelative = (rect: Rect, width: number, height: number): Rect => ({
+    x: rect.x / width,
+    y: rect.y / height,
+    width: rect.width / width,
+    height: rect.height / height,
+});
+
+const toPixels = (rect: Rect, width: number, height: number): Rect => {
+    const x = Math.min(width - 1, Math.max(0, Math.round(rect.x * width)));
+    const y = Math.min(height - 1, Math.max(0, Math.round(rect.y * height)));
+    return {
+        x,
+        y,
+        width: Math.max(1, Math.min(width - x, Math.round(rect.width * width))),
+        height: Math.max(1, Math.min(height - y, Math.round(rect.height * height))),
+    };
+};
+
+/**
+ * Returns true if a history step can be recorded into a macro.
+ * Originals and chat imports carry no operation to replay.
+ */
+export const canRecordStep = (entry: HistoryEntry): boolean => {
+    switch (entry.type) {
+        case 'retouch': return !!entry.prompt && !!entry.hotspot;
+        case 'filter': return !!entry.prompt || !!entry.lut;
+        case 'adjust': return !!entry.prompt || !!entry.adjustments;
+        case 'crop': return !!entry.cropRect;
+        case 'transform': return !!entry.transform;
+        default: return false;
+    }
+};
+
+/**
+ * Turns a history step into a macro step, converting positions to relative coordinates.
+ * @param entry The recorded step.
+ * @param parentImage The image the step was applied to, which its positions refer to.
+ * @returns The macro step, or null if the step cannot be recorded.
+ */
+export const recordMacroStep = async (entry: HistoryEntry, parentImage: File): Promise<MacroStep | null> => {
+    if (!canRecordStep(entry)) return null;
+    switch (entry.type) {
+        case 'retouch': {
+            const { width, height } = await getImageSize(parentImage);
+            return {
+                type: 'retouch',
+                prompt: entry.prompt!,
+                hotspot: { x: entry.hotspot!.x / width, y: entry.hotspot!.y / height },
+                mask: entry.mask && { dataUrl: entry.mask.dataUrl, bounds: toRelative(entry.mask.bounds, width, height) },
+            };
+        }
+        case 'filter':
+            return entry.lut
+                ? { type: 'lut', lut: entry.lut }
+                : { type: 'filter', prompt: entry.prompt!, blend: entry.blend };
+        case 'adjust':
+            return entry.adjustments
+                ? { type: 'local-adjust', adjustments: entry.adjustments }
+                : { type: 'adjust', prompt: entry.prompt!, blend: entry.blend };
+        case 'crop': {
+            const { width, height } = await getImageSize(parentImage);
+            // Crop rectangles are in pixels of the straightened image
+            const straightened = getStraightenedSize(width, height, entry.straighten ?? 0);
+            const rect = entry.cropRect!;
+            return {
+                type: 'crop',
+                rect: toRelative(rect, straightened.width, straightened.height),
+                aspect: rect.width / rect.height,
+                straighten: entry.straighten,
+            };
+        }
+        case 'transform':
+            return { type: 'transform', transform: entry.transform! };
+        default:
+            return null;
+    }
+};
+
+const transformLabels: Record<ImageTransform, string> = {
+    'rotate-left': 'Rotate left',
+    'rotate-right': 'Rotate right',
+    'flip-horizontal': 'Flip horizontal',
+    'flip-vertical': 'Flip vertical',
+};
+
+/**
+ * Returns a one-line description of a macro step for lists and progress.
+ */
+export const describeMacroStep = (step: MacroStep): string => {
+    switch (step.type) {
+        case 'retouch': return `Retouch: ${step.prompt}`;
+        case 'filter': return `Filter: ${step.prompt}`;
+        case 'adjust': return `Adjust: ${step.prompt}`;
+        case 'lut': return `Color grade: ${step.lut.name} ${step.lut.strength}%`;
+        case 'local-adjust': return `Adjust: ${describeAdjustments(step.adjustments)}`;
+        case 'crop': {
+            const size = `${Math.round(step.rect.width * 100)}% × ${Math.round(step.rect.height * 100)}%`;
+            return `Crop ${size}, ratio ${step.aspect.toFixed(2)}${step.straighten ? `, straighten ${step.straighten}°` : ''}`;
+        }
+        case 'transform': return transformLabels[step.transform];
+    }
+};
+
+// Stretches a recorded mask over an image of another size
+const scaleMask = async (dataUrl: string, width: number, height: number): Promise<string> => {
+    const mask = await loadImage(dataUrl);
+    if (mask.naturalWidth === width && mask.naturalHeight === height) return dataUrl;
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(mask, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+// The largest rectangle with the given aspect ratio inside `rect`, sharing its centre
+const fitAspect = (rect: Rect, aspect: number): Rect => {
+    if (rect.width / rect.height > aspect) {
+        const width = Math.max(1, Math.round(rect.height * aspect));
+        return { ...rect, x: rect.x + Math.floor((rect.width - width) / 2), width };
+    }
+    const height = Math.max(1, Math.round(rect.width / aspect));
+    return { ...rect, y: rect.y + Math.floor((rect.height - height) / 2), height };
+};
+
+const abortError = () => new DOMException('The macro was cancelled.', 'AbortError');
+
+/**
+ * Applies one macro step to an image.
+ * @param step The step to replay.
+ * @param source The image to apply it to.
+ * @param options.luts Colour grades available by name.
+ * @param options.generate Runs AI steps.
+ * @returns The history entry for the result.
+ * @throws Error if the step cannot be applied, e.g. its colour grade is not loaded.
+ */
+export const replayMacroStep = async (
+    step: MacroStep,
+    source: File,
+    options: { signal: AbortSignal, luts: Lut3D[], generate: GenerateStep },
+): Promise<HistoryEntry> => {
+    const { signal, luts, generate } = options;
+    if (signal.aborted) throw abortError();
+    const timestamp = Date.now();
+
+    switch (step.type) {
+        case 'retouch': {
+            const { width, height } = await getImageSize(source);
+            const hotspot = {
+                x: Math.min(width - 1, Math.round(step.hotspot.x * width)),
+                y: Math.min(height - 1, Math.round(step.hotspot.y * height)),
+            };
+            const mask = step.mask && {
+                dataUrl: await scaleMask(step.mask.dataUrl, width, height),
+                bounds: toPixels(step.mask.bounds, width, height),
+            };
+            return generate({ type: 'retouch', prompt: step.prompt, region: { hotspot, mask } }, source, signal);
+        }
+        case 'filter':
+        case 'adjust': {
+            const entry = await generate({ type: step.type, prompt: step.prompt }, source, signal);
+            if (!step.blend || (step.blend.opacity === 100 && step.blend.mode === 'normal')) return entry;
+            const image = await renderBlend(source, entry.image, step.blend.opacity / 100, step.blend.mode);
+            return { ...entry, image, blend: step.blend };
+        }
+        case 'lut': {
+            const lut = luts.find(candidate => candidate.name === step.lut.name);
+            if (!lut) throw new Error(`The color grade "${step.lut.name}" is not loaded. Import its .cube file and run the macro again.`);
+            const image = await renderLut(source, lut, step.lut.strength / 100);
+            return { image, type: 'filter', lut: step.lut, timestamp };
+        }
+        case 'local-adjust': {
+            const image = await renderAdjustments(source, step.adjustments);
+            return { image, type: 'adjust', adjustments: step.adjustments, timestamp };
+        }
+        case 'crop': {
+            const { width, height } = await getImageSize(source);
+            const straightened = getStraightenedSize(width, height, step.straighten ?? 0);
+            const cropRect = fitAspect(toPixels(step.rect, straightened.width, straightened.height), step.aspect);
+            const image = await renderCrop(source, cropRect, step.straighten);
+            return { image, type: 'crop', cropRect, straighten: step.straighten, timestamp };
+        }
+        case 'transform': {
+            const image = await transformImage(source, step.transform);
+            return { image, type: 'transform', transform: step.transform, timestamp };
+        }
+    }
+};
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Recorded edit macros, persisted in localStorage
+
+import { Macro, MacroStep } from './macro';
+
+const STORAGE_KEY = 'pixshop.macros';
+
+const loadMacros = (): Macro[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) as Macro[] : [];
+    } catch (error) {
+        console.warn('Could not load macros:', error);
+        return [];
+    }
+};
+
+let currentMacros: Macro[] = loadMacros();
+const listeners = new Set<(macros: Macro[]) => void>();
+
+const persist = (macros: Macro[]) => {
+    currentMacros = macros;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(currentMacros));
+    } catch (error) {
+        // Painted masks can make a macro too large for localStorage; it still works until reload
+        console.warn('Could not save macros:', error);
+    }
+    listeners.forEach(listener => listener(currentMacros));
+};
+
+/**
+ * Returns every macro, oldest first.
+ */
+export const getMacros = (): Macro[] => currentMacros;
+
+/**
+ * Saves a new macro.
+ * @param name The name shown in the macro list.
+ * @param steps The recorded steps, in the order they run.
+ * @returns The saved macro.
+ */
+export const saveMacro = (name: string, steps: MacroStep[]): Macro => {
+    const macro: Macro = {
+        id: `macro-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: name.trim(),
+        steps,
+        createdAt: Date.now(),
+    };
+    persist([...currentMacros, macro]);
+    return macro;
+};
+
+/**
+ * Removes a macro.
+ */
+export const deleteMacro = (id: string): void => {
+    persist(currentMacros.filter(macro => macro.id !== id));
+};
+
+/**
+ * Subscribes to macro changes.
+ * @param listener Called with all macros after every change.
+ * @returns A function that removes the subscription.
+ */
+export const subscribeMacros = (listener: (macros: Macro[]) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
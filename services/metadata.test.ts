@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createImageMetadata, getExifOrientation, readExif, removeExif, resetExifOrientation, writeExif } from './metadata';
+
+// Builds a big-endian EXIF block whose first directory holds the given ASCII and SHORT tags
+const buildExif = (tags: { tag: number, ascii?: string, short?: number }[]): Uint8Array => {
+    const ifdSize = 2 + tags.length * 12 + 4;
+    const strings = tags.map(({ ascii }) => ascii === undefined ? null : new TextEncoder().encode(`${ascii}\0`));
+    const exif = new Uint8Array(8 + ifdSize + strings.reduce((sum, text) => sum + (text?.length ?? 0), 0));
+    const view = new DataView(exif.buffer);
+    view.setUint16(0, 0x4d4d);
+    view.setUint16(2, 42);
+    view.setUint32(4, 8);
+    view.setUint16(8, tags.length);
+    let dataOffset = 8 + ifdSize;
+    tags.forEach(({ tag, short }, i) => {
+        const entry = 10 + i * 12;
+        const text = strings[i];
+        view.setUint16(entry, tag);
+        if (text) {
+            view.setUint16(entry + 2, 2);
+            view.setUint32(entry + 4, text.length);
+            view.setUint32(entry + 8, dataOffset);
+            exif.set(text, dataOffset);
+            dataOffset += text.length;
+        } else {
+            view.setUint16(entry + 2, 3);
+            view.setUint32(entry + 4, 1);
+            view.setUint16(entry + 8, short!);
+        }
+    });
+    return exif;
+};
+
+const exif = buildExif([
+    { tag: 0x010f, ascii: 'Canon' },
+    { tag: 0x0110, ascii: 'Canon EOS R5' },
+    { tag: 0x0112, short: 6 },
+    { tag: 0x0132, ascii: '2024:05:01 10:30:00' },
+]);
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+test('reads the orientation and resets it without touching the original', () => {
+    assert.equal(getExifOrientation(exif), 6);
+    const upright = resetExifOrientation(exif);
+    assert.equal(getExifOrientation(upright), 1);
+    assert.equal(getExifOrientation(exif), 6);
+});
+
+test('blocks without an orientation, or that are not TIFF, count as upright', () => {
+    assert.equal(getExifOrientation(buildExif([{ tag: 0x010f, ascii: 'Canon' }])), 1);
+    assert.equal(getExifOrientation(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8])), 1);
+});
+
+test('describes the camera without repeating the make', () => {
+    assert.deepEqual(createImageMetadata(exif), { exif, camera: 'Canon EOS R5', takenAt: '2024:05:01 10:30:00' });
+    const other = buildExif([{ tag: 0x010f, ascii: 'FUJIFILM' }, { tag: 0x0110, ascii: 'X-T4' }]);
+    assert.equal(createImageMetadata(other).camera, 'FUJIFILM X-T4');
+});
+
+test('EXIF round-trips through a JPEG and can be removed again', async () => {
+    // Start of image, an empty start of scan and end of image
+    const jpeg = new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02, 0xff, 0xd9])], { type: 'image/jpeg' });
+    assert.equal(await readExif(jpeg), null);
+
+    const tagged = await writeExif(jpeg, exif);
+    assert.equal(tagged.type, 'image/jpeg');
+    assert.deepEqual(await readExif(tagged), exif);
+    assert.deepEqual(await bytesOf(await removeExif(tagged)), await bytesOf(jpeg));
+});
+
+test('EXIF round-trips through a PNG and can be removed again', async () => {
+    const chunk = (type: string, length: number) => {
+        const bytes = new Uint8Array(12 + length);
+        new DataView(bytes.buffer).setUint32(0, length);
+        bytes.set(new TextEncoder().encode(type), 4);
+        return bytes;
+    };
+    const signature = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const png = new Blob([signature, chunk('IHDR', 13), chunk('IEND', 0)], { type: 'image/png' });
+    assert.equal(await readExif(png), null);
+
+    const tagged = await writeExif(png, exif);
+    assert.deepEqual(await readExif(tagged), exif);
+    assert.deepEqual(await bytesOf(await removeExif(tagged)), await bytesOf(png));
+});
+
+test('other formats are left alone', async () => {
+    const webp = new Blob(['RIFF....WEBP'], { type: 'image/webp' });
+    assert.equal(await writeExif(webp, exif), webp);
+    assert.equal(await readExif(webp), null);
+});
@@ -0,0 +1,296 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Reading and writing raw EXIF blocks. Canvas encoding drops all metadata, so
+// exports that keep metadata copy the source's EXIF into the encoded file.
+// EXIF can be carried by JPEG (APP1 segment) and PNG (eXIf chunk).
+//
+// Uploads are turned upright here as well: browsers disagree on when they apply
+// the EXIF orientation, so the pixels are rotated once and the tag reset to 1.
+
+import { ImageMetadata } from '../types';
+import { crc32 } from './zip';
+import { loadImage, createCanvas } from './imageUtils';
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const startsWith = (bytes: Uint8Array, prefix: number[], offset = 0) =>
+    prefix.every((value, i) => bytes[offset + i] === value);
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+const isPng = (bytes: Uint8Array) => startsWith(bytes, PNG_SIGNATURE);
+
+/**
+ * Returns true if metadata can be written into files of this MIME type.
+ */
+export const canEmbedExif = (mimeType: string): boolean => mimeType === 'image/jpeg' || mimeType === 'image/png';
+
+/**
+ * Extracts the raw EXIF block (a TIFF structure) from a JPEG or PNG file.
+ * @param file The image file.
+ * @returns The EXIF bytes, or null if the file has none.
+ */
+export const readExif = async (file: Blob): Promise<Uint8Array | null> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    if (isJpeg(bytes)) {
+        let offset = 2;
+        while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+            const marker = bytes[offset + 1];
+            // Start of scan: image data follows, no more metadata segments
+            if (marker === 0xda) break;
+            const length = view.getUint16(offset + 2);
+            if (marker === 0xe1 && startsWith(bytes, EXIF_HEADER, offset + 4)) {
+                return bytes.slice(offset + 4 + EXIF_HEADER.length, offset + 2 + length);
+            }
+            offset += 2 + length;
+        }
+        return null;
+    }
+
+    if (isPng(bytes)) {
+        let offset = PNG_SIGNATURE.length;
+        while (offset + 8 <= bytes.length) {
+            const length = view.getUint32(offset);
+            const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+            if (type === 'eXIf') {
+                return bytes.slice(offset + 8, offset + 8 + length);
+            }
+            if (type === 'IDAT' || type === 'IEND') break;
+            offset += 12 + length;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Writes an EXIF block into a JPEG or PNG file. Other formats are returned unchanged.
+ * @param file The encoded image, without EXIF.
+ * @param exif The raw EXIF bytes.
+ * @returns A promise that resolves to the image with EXIF.
+ */
+export const writeExif = async (file: Blob, exif: Uint8Array): Promise<Blob> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    if (isJpeg(bytes)) {
+        const segmentLength = 2 + EXIF_HEADER.length + exif.length;
+        if (segmentLength > 0xffff) {
+            console.warn('EXIF block is too large for a JPEG segment; exporting without metadata');
+            return file;
+        }
+        const segment = new Uint8Array(2 + segmentLength);
+        const view = new DataView(segment.buffer);
+        view.setUint16(0, 0xffe1);
+        view.setUint16(2, segmentLength);
+        segment.set(EXIF_HEADER, 4);
+        segment.set(exif, 4 + EXIF_HEADER.length);
+        // APP1 goes right after the start-of-image marker
+        return new Blob([bytes.subarray(0, 2), segment, bytes.subarray(2)], { type: file.type });
+    }
+
+    if (isPng(bytes)) {
+        const chunk = new Uint8Array(12 + exif.length);
+        const view = new DataView(chunk.buffer);
+        view.setUint32(0, exif.length);
+        chunk.set([0x65, 0x58, 0x49, 0x66], 4); // "eXIf"
+        chunk.set(exif, 8);
+        view.setUint32(8 + exif.length, crc32(chunk.subarray(4, 8 + exif.length)));
+        // eXIf must come before the image data; right after IHDR is always valid
+        const ihdrEnd = PNG_SIGNATURE.length + 12 + new DataView(bytes.buffer).getUint32(PNG_SIGNATURE.length);
+        return new Blob([bytes.subarray(0, ihdrEnd), chunk, bytes.subarray(ihdrEnd)], { type: file.type });
+    }
+
+    return file;
+};
+
+/**
+ * Returns a copy of an image file without its EXIF block, so browsers decode the
+ * pixels as stored instead of applying the orientation tag.
+ * @param file A JPEG or PNG file; other formats are returned unchanged.
+ */
+export const removeExif = async (file: Blob): Promise<Blob> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const parts: Uint8Array[] = [];
+
+    if (isJpeg(bytes)) {
+        let offset = 2;
+        let kept = 0;
+        while (offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] !== 0xda) {
+            const next = offset + 2 + view.getUint16(offset + 2);
+            if (bytes[offset + 1] === 0xe1 && startsWith(bytes, EXIF_HEADER, offset + 4)) {
+                parts.push(bytes.subarray(kept, offset));
+                kept = next;
+            }
+            offset = next;
+        }
+        parts.push(bytes.subarray(kept));
+        return new Blob(parts, { type: file.type });
+    }
+
+    if (isPng(bytes)) {
+        let offset = PNG_SIGNATURE.length;
+        let kept = 0;
+        while (offset + 8 <= bytes.length) {
+            const next = offset + 12 + view.getUint32(offset);
+            const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+            if (type === 'eXIf') {
+                parts.push(bytes.subarray(kept, offset));
+                kept = next;
+            }
+            if (type === 'IEND') break;
+            offset = next;
+        }
+        parts.push(bytes.subarray(kept));
+        return new Blob(parts, { type: file.type });
+    }
+
+    return file;
+};
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+interface TiffEntry {
+    type: number;
+    count: number;
+    // Offset of the entry's value field within the EXIF block
+    valueOffset: number;
+}
+
+// Reads the entries of the image file directory at an offset of a TIFF structure
+const readIfd = (view: DataView, offset: number, littleEndian: boolean): Map<number, TiffEntry> => {
+    const entries = new Map<number, TiffEntry>();
+    if (offset + 2 > view.byteLength) return entries;
+    const count = view.getUint16(offset, littleEndian);
+    for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        entries.set(view.getUint16(entry, littleEndian), {
+            type: view.getUint16(entry + 2, littleEndian),
+            count: view.getUint32(entry + 4, littleEndian),
+            valueOffset: entry + 8,
+        });
+    }
+    return entries;
+};
+
+const readTiff = (exif: Uint8Array) => {
+    const view = new DataView(exif.buffer, exif.byteOffset, exif.byteLength);
+    if (exif.length < 8) return null;
+    const order = view.getUint16(0);
+    if (order !== 0x4949 && order !== 0x4d4d) return null;
+    const littleEndian = order === 0x4949;
+    return { view, littleEndian, ifd0: readIfd(view, view.getUint32(4, littleEndian), littleEndian) };
+};
+
+const readAscii = (view: DataView, entry: TiffEntry | undefined, littleEndian: boolean): string | undefined => {
+    // Type 2 is ASCII; values up to four bytes are stored inline
+    if (!entry || entry.type !== 2) return undefined;
+    const start = entry.count > 4 ? view.getUint32(entry.valueOffset, littleEndian) : entry.valueOffset;
+    if (start + entry.count > view.byteLength) return undefined;
+    const text = new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + start, entry.count));
+    return text.replace(/\0[\s\S]*$/, '').trim() || undefined;
+};
+
+/**
+ * Reads the orientation tag (1 to 8) from an EXIF block.
+ * @returns The orientation, or 1 when the tag is missing.
+ */
+export const getExifOrientation = (exif: Uint8Array): number => {
+    const tiff = readTiff(exif);
+    const entry = tiff?.ifd0.get(TAG_ORIENTATION);
+    if (!tiff || !entry) return 1;
+    const orientation = tiff.view.getUint16(entry.valueOffset, tiff.littleEndian);
+    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+};
+
+/**
+ * Returns a copy of an EXIF block with the orientation tag set to "upright",
+ * for images whose pixels have already been rotated.
+ */
+export const resetExifOrientation = (exif: Uint8Array): Uint8Array => {
+    const copy = exif.slice();
+    const tiff = readTiff(copy);
+    const entry = tiff?.ifd0.get(TAG_ORIENTATION);
+    if (tiff && entry) {
+        tiff.view.setUint16(entry.valueOffset, 1, tiff.littleEndian);
+    }
+    return copy;
+};
+
+/**
+ * Builds the metadata sidecar for an EXIF block: the block itself plus the
+ * camera and capture date for display.
+ */
+export const createImageMetadata = (exif: Uint8Array): ImageMetadata => {
+    const tiff = readTiff(exif);
+    if (!tiff) return { exif };
+    const { view, littleEndian, ifd0 } = tiff;
+
+    const make = readAscii(view, ifd0.get(TAG_MAKE), littleEndian);
+    const model = readAscii(view, ifd0.get(TAG_MODEL), littleEndian);
+    // Models often repeat the make ("Canon" / "Canon EOS R5")
+    const camera = make && model && !model.startsWith(make) ? `${make} ${model}` : model ?? make;
+
+    const exifIfd = ifd0.get(TAG_EXIF_IFD);
+    const exifEntries = exifIfd ? readIfd(view, view.getUint32(exifIfd.valueOffset, littleEndian), littleEndian) : null;
+    const takenAt = readAscii(view, exifEntries?.get(TAG_DATE_TIME_ORIGINAL), littleEndian)
+        ?? readAscii(view, ifd0.get(TAG_DATE_TIME), littleEndian);
+
+    return { exif, camera, takenAt };
+};
+
+/**
+ * Prepares an uploaded image for editing. Images with an EXIF orientation are
+ * rotated so their pixels are upright, and the EXIF block is split off into a
+ * metadata sidecar that exports can write back.
+ * @param file The uploaded image.
+ * @returns The upright image and its metadata, if it had any.
+ */
+export const prepareUpload = async (file: File): Promise<{ image: File, metadata?: ImageMetadata }> => {
+    const exif = await readExif(file);
+    if (!exif) return { image: file };
+
+    const orientation = getExifOrientation(exif);
+    const metadata = createImageMetadata(resetExifOrientation(exif));
+    if (orientation === 1) return { image: file, metadata };
+
+    const url = URL.createObjectURL(await removeExif(file));
+    try {
+        const source = await loadImage(url);
+        const width = source.naturalWidth;
+        const height = source.naturalHeight;
+        // Orientations 5 to 8 swap width and height
+        const swap = orientation >= 5;
+        const { canvas, ctx } = createCanvas(swap ? height : width, swap ? width : height);
+        switch (orientation) {
+            case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+            case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+            case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+            case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+            case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+            case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+            case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+        }
+        ctx.drawImage(source, 0, 0);
+
+        const mimeType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, 0.95));
+        if (!blob) {
+            throw new Error('Could not re-encode the rotated image');
+        }
+        return { image: new File([blob], file.name, { type: mimeType }), metadata };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Offline mock provider for development and tests.
+// Every operation becomes a deterministic canvas transform of the input, so the
+// same prompt on the same image always gives the same result without any network.
+
+import { ImageProvider, ImageGenerationRequest } from './imageProviders';
+import {
+    ImageGenerationError,
+    AuthMissingError,
+    RateLimitedError,
+    SafetyRefusalError,
+    GenerationTimeoutError,
+    InvalidOutputError,
+    NetworkError
+} from './errors';
+import { delay } from './retry';
+import { getSettings, MockFailure } from './settings';
+import { loadImage, createCanvas, imageToCanvas } from './imageUtils';
+
+const PROVIDER = 'Mock';
+
+// Prompt tokens that trigger a simulated failure for a single request, e.g. "[mock:refusal]"
+const FAILURE_TOKEN = /\[mock:(refusal|rate-limited|timeout|network|invalid-output|auth-missing)\]/i;
+
+const createFailure = (failure: Exclude<MockFailure, 'none'>, context: string): ImageGenerationError => {
+    switch (failure) {
+        case 'refusal':
+            return new SafetyRefusalError(`Mock provider refused the request for ${context}`, { provider: PROVIDER });
+        case 'rate-limited':
+            return new RateLimitedError(`Mock provider rate limited the request for ${context}`, { provider: PROVIDER, retryAfterMs: 500 });
+        case 'timeout':
+            return new GenerationTimeoutError(`Mock provider timed out for ${context}`, { provider: PROVIDER });
+        case 'network':
+            return new NetworkError(`Mock provider could not be reached for ${context}`, { provider: PROVIDER });
+        case 'invalid-output':
+            return new InvalidOutputError(`Mock provider returned no image for ${context}`, { provider: PROVIDER });
+        case 'auth-missing':
+            return new AuthMissingError(`Mock provider has no API key for ${context}`, { provider: PROVIDER });
+    }
+};
+
+// FNV-1a hash, used to derive stable colours from prompts
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const colorFromPrompt = (prompt: string): [number, number, number] => {
+    const hash = hashString(prompt);
+    return [hash & 0xff, (hash >> 8) & 0xff, (hash >> 16) & 0xff];
+};
+
+// Blends every pixel towards a colour derived from the prompt
+const applyTint = (ctx: CanvasRenderingContext2D, width: number, height: number, prompt: string, strength = 0.3) => {
+    const [r, g, b] = colorFromPrompt(prompt);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = data[i] * (1 - strength) + r * strength;
+        data[i + 1] = data[i + 1] * (1 - strength) + g * strength;
+        data[i + 2] = data[i + 2] * (1 - strength) + b * strength;
+    }
+    ctx.putImageData(imageData, 0, 0);
+};
+
+// Brightens the image, or darkens it when the prompt asks for something darker
+const applyBrightness = (ctx: CanvasRenderingContext2D, width: number, height: number, prompt: string) => {
+    const factor = /dark|dim|moody|night|shadow/i.test(prompt) ? 0.8 : 1.2;
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = Math.min(255, data[i] * factor);
+        data[i + 1] = Math.min(255, data[i + 1] * factor);
+        data[i + 2] = Math.min(255, data[i + 2] * factor);
+    }
+    ctx.putImageData(imageData, 0, 0);
+};
+
+// Marks the edit location with a filled circle
+const drawHotspot = (ctx: CanvasRenderingContext2D, width: number, height: number, prompt: string, hotspot: { x: number, y: number }) => {
+    const [r, g, b] = colorFromPrompt(prompt);
+    const radius = Math.max(8, Math.round(Math.min(width, height) * 0.05));
+    ctx.beginPath();
+    ctx.arc(hotspot.x, hotspot.y, radius, 0, Math.PI * 2);
+    ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.8)`;
+    ctx.fill();
+    ctx.lineWidth = Math.max(2, radius / 6);
+    ctx.strokeStyle = 'white';
+    ctx.stroke();
+};
+
+// Tints only the masked area, weighting each pixel by the mask's brightness
+const applyMaskedTint = async (ctx: CanvasRenderingContext2D, width: number, height: number, prompt: string, maskUrl: string) => {
+    const [r, g, b] = colorFromPrompt(prompt);
+    const mask = createCanvas(width, height);
+    mask.ctx.drawImage(await loadImage(maskUrl), 0, 0, width, height);
+    const weights = mask.ctx.getImageData(0, 0, width, height).data;
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const strength = (weights[i] / 255) * 0.7;
+        data[i] = data[i] * (1 - strength) + r * strength;
+        data[i + 1] = data[i + 1] * (1 - strength) + g * strength;
+        data[i + 2] = data[i + 2] * (1 - strength) + b * strength;
+    }
+    ctx.putImageData(imageData, 0, 0);
+};
+
+// Draws a gradient card coloured by the prompt, for chat requests without reference images
+const drawPromptCard = (prompt: string): string => {
+    const size = 1024;
+    const { canvas, ctx } = createCanvas(size, size);
+    const [r, g, b] = colorFromPrompt(prompt);
+    const gradient = ctx.createLinearGradient(0, 0, size, size);
+    gradient.addColorStop(0, `rgb(${r}, ${g}, ${b})`);
+    gradient.addColorStop(1, `rgb(${255 - r}, ${255 - g}, ${255 - b})`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, size, size);
+    ctx.fillStyle = 'white';
+    ctx.font = 'bold 48px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('Mock Image', size / 2, size / 2);
+    return canvas.toDataURL('image/png');
+};
+
+const transform = async (request: ImageGenerationRequest): Promise<string> => {
+    const { prompt, images, context, hotspot, mask } = request;
+
+    if (images.length === 0) {
+        return drawPromptCard(prompt);
+    }
+
+    const image = await loadImage(images[0]);
+    const { canvas, ctx } = imageToCanvas(image);
+    const { width, height } = canvas;
+
+    switch (context) {
+        case 'edit':
+            if (mask) {
+                await applyMaskedTint(ctx, width, height, prompt, mask);
+                break;
+            }
+            drawHotspot(ctx, width, height, prompt, hotspot ?? { x: width / 2, y: height / 2 });
+            break;
+        case 'adjustment':
+            applyBrightness(ctx, width, height, prompt);
+            break;
+        default:
+            applyTint(ctx, width, height, prompt);
+            break;
+    }
+
+    return canvas.toDataURL('image/png');
+};
+
+export const mockProvider: ImageProvider = {
+    id: 'mock',
+    name: PROVIDER,
+    capabilities: {
+        multiImageInput: true,
+        mask: true,
+        maxResolution: 8192
+    },
+    // Only used when selected; it must never act as a silent fallback for real providers
+    isAvailable: () => getSettings().providerMode === 'mock',
+    generate: async (request) => {
+        const { latencyMs, failure } = getSettings().mock;
+        console.log(`Mock provider handling ${request.context} (latency ${latencyMs}ms, failure: ${failure})`);
+
+        await delay(latencyMs, request.signal);
+
+        const token = request.prompt.match(FAILURE_TOKEN)?.[1].toLowerCase() as Exclude<MockFailure, 'none'> | undefined;
+        const simulated = token ?? (failure !== 'none' ? failure : undefined);
+        if (simulated) {
+            throw createFailure(simulated, request.context);
+        }
+
+        return await transform(request);
+    }
+};
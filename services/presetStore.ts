@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Prompt presets for retouching, filters and adjustments, persisted in localStorage.
+// Built-in and user presets share one ordered list, so either can be tagged, moved or removed.
+
+export type PresetKind = 'retouch' | 'filter' | 'adjust';
+
+export interface Preset {
+    id: string;
+    kind: PresetKind;
+    name: string;
+    prompt: string;
+    tags: string[];
+    // Shipped with the app rather than saved by the user
+    builtIn?: boolean;
+}
+
+const STORAGE_KEY = 'pixshop.presets';
+// Identifies exported files, so other JSON is rejected with a clear message
+const EXPORT_FORMAT = 'pixshop-presets';
+const EXPORT_VERSION = 1;
+
+const presetKinds: PresetKind[] = ['retouch', 'filter', 'adjust'];
+
+const builtInPresets: Preset[] = ([
+    { id: 'builtin-retouch-skin', kind: 'retouch', name: '美白肌肤', prompt: '美白皮肤，让肌肤看起来更加光滑白皙', tags: ['portrait'] },
+    { id: 'builtin-retouch-blemish', kind: 'retouch', name: '去除痘痘', prompt: '去除脸部的痘痘和瑕疵，让皮肤更加干净', tags: ['portrait'] },
+    { id: 'builtin-retouch-makeup', kind: 'retouch', name: '美化妆容', prompt: '增强妆容效果，让眼妆和唇妆更加精致', tags: ['portrait'] },
+    { id: 'builtin-retouch-body', kind: 'retouch', name: '修饰身材', prompt: '适度优化身材线条，让身形更加协调', tags: ['portrait'] },
+    { id: 'builtin-filter-synthwave', kind: 'filter', name: 'Synthwave', prompt: 'Apply a vibrant 80s synthwave aesthetic with neon magenta and cyan glows, and subtle scan lines.', tags: ['retro'] },
+    { id: 'builtin-filter-anime', kind: 'filter', name: 'Anime', prompt: 'Give the image a vibrant Japanese anime style, with bold outlines, cel-shading, and saturated colors.', tags: ['illustration'] },
+    { id: 'builtin-filter-lomo', kind: 'filter', name: 'Lomo', prompt: 'Apply a Lomography-style cross-processing film effect with high-contrast, oversaturated colors, and dark vignetting.', tags: ['film'] },
+    { id: 'builtin-filter-glitch', kind: 'filter', name: 'Glitch', prompt: 'Transform the image into a futuristic holographic projection with digital glitch effects and chromatic aberration.', tags: ['digital'] },
+    { id: 'builtin-filter-film', kind: 'filter', name: '复古胶片', prompt: '应用复古胶片滤镜，带有颗粒感和温暖色调', tags: ['film', 'retro'] },
+    { id: 'builtin-filter-cyberpunk', kind: 'filter', name: '赛博朋克', prompt: '应用赛博朋克风格滤镜，带有霓虹灯效果和未来感', tags: ['digital'] },
+    { id: 'builtin-filter-watercolor', kind: 'filter', name: '水彩画风', prompt: '将图像转换为水彩画风格，带有柔和的笔触效果', tags: ['illustration'] },
+    { id: 'builtin-filter-sketch', kind: 'filter', name: '素描效果', prompt: '将图像转换为素描风格，保留主要线条和阴影', tags: ['illustration'] },
+    { id: 'builtin-adjust-blur', kind: 'adjust', name: 'Blur Background', prompt: 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.', tags: ['focus'] },
+    { id: 'builtin-adjust-details', kind: 'adjust', name: 'Enhance Details', prompt: 'Slightly enhance the sharpness and details of the image without making it look unnatural.', tags: ['focus'] },
+    { id: 'builtin-adjust-warm', kind: 'adjust', name: 'Warmer Lighting', prompt: 'Adjust the color temperature to give the image warmer, golden-hour style lighting.', tags: ['lighting', 'color'] },
+    { id: 'builtin-adjust-studio', kind: 'adjust', name: 'Studio Light', prompt: 'Add dramatic, professional studio lighting to the main subject.', tags: ['lighting'] },
+    { id: 'builtin-adjust-bokeh', kind: 'adjust', name: '背景虚化', prompt: '应用景深效果，让背景模糊突出主体', tags: ['focus'] },
+    { id: 'builtin-adjust-studio-zh', kind: 'adjust', name: '工作室打光', prompt: '添加专业的工作室灯光效果', tags: ['lighting'] },
+    { id: 'builtin-adjust-golden', kind: 'adjust', name: '暖色调', prompt: '调整图像为温暖的金色调，营造温馨氛围', tags: ['lighting', 'color'] },
+    { id: 'builtin-adjust-mono', kind: 'adjust', name: '黑白艺术', prompt: '转换为高对比度的黑白艺术效果', tags: ['color'] },
+] as Omit<Preset, 'builtIn'>[]).map(preset => ({ ...preset, builtIn: true }));
+
+const createPresetId = (): string => `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Trims, lowercases and de-duplicates tags
+const normalizeTags = (tags: string[]): string[] =>
+    Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+const isPreset = (value: unknown): value is Preset => {
+    const preset = value as Preset;
+    return !!preset && typeof preset.id === 'string' && presetKinds.includes(preset.kind)
+        && typeof preset.name === 'string' && typeof preset.prompt === 'string' && Array.isArray(preset.tags);
+};
+
+const loadPresets = (): Preset[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return builtInPresets;
+        const stored = JSON.parse(raw);
+        return Array.isArray(stored) ? stored.filter(isPreset) : builtInPresets;
+    } catch (error) {
+        console.warn('Could not load presets, using the built-in ones:', error);
+        return builtInPresets;
+    }
+};
+
+let currentPresets: Preset[] = loadPresets();
+const listeners = new Set<(presets: Preset[]) => void>();
+
+const persist = (presets: Preset[]) => {
+    currentPresets = presets;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(currentPresets));
+    } catch (error) {
+        console.warn('Could not save presets:', error);
+    }
+    listeners.forEach(listener => listener(currentPresets));
+};
+
+/**
+ * Returns every preset in display order.
+ */
+export const getPresets = (): Preset[] => currentPresets;
+
+/**
+ * Returns the presets for one tool in display order.
+ */
+export const getPresetsByKind = (presets: Preset[], kind: PresetKind): Preset[] =>
+    presets.filter(preset => preset.kind === kind);
+
+/**
+ * Saves a new user preset at the end of its tool's list.
+ * @returns The saved preset.
+ */
+export const addPreset = (kind: PresetKind, name: string, prompt: string, tags: string[] = []): Preset => {
+    const preset: Preset = { id: createPresetId(), kind, name: name.trim(), prompt: prompt.trim(), tags: normalizeTags(tags) };
+    persist([...currentPresets, preset]);
+    return preset;
+};
+
+/**
+ * Renames, re-tags or rewrites a preset.
+ */
+export const updatePreset = (id: string, patch: Partial<Pick<Preset, 'name' | 'prompt' | 'tags'>>): void => {
+    persist(currentPresets.map(preset => preset.id !== id ? preset : {
+        ...preset,
+        ...patch,
+        tags: patch.tags ? normalizeTags(patch.tags) : preset.tags,
+    }));
+};
+
+/**
+ * Removes a preset. Built-in presets can be brought back with restoreBuiltInPresets.
+ */
+export const deletePreset = (id: string): void => {
+    persist(currentPresets.filter(preset => preset.id !== id));
+};
+
+/**
+ * Swaps a preset with its neighbour among the presets for the same tool.
+ * @param offset -1 to move it earlier, 1 to move it later.
+ */
+export const movePreset = (id: string, offset: -1 | 1): void => {
+    const index = currentPresets.findIndex(preset => preset.id === id);
+    if (index < 0) return;
+    const kind = currentPresets[index].kind;
+    let target = index + offset;
+    while (target >= 0 && target < currentPresets.length && currentPresets[target].kind !== kind) {
+        target += offset;
+    }
+    if (target < 0 || target >= currentPresets.length) return;
+    const next = [...currentPresets];
+    [next[index], next[target]] = [next[target], next[index]];
+    persist(next);
+};
+
+/**
+ * Adds back any built-in presets that were deleted, at the end of their tool's list.
+ */
+export const restoreBuiltInPresets = (): void => {
+    const ids = new Set(currentPresets.map(preset => preset.id));
+    persist([...currentPresets, ...builtInPresets.filter(preset => !ids.has(preset.id))]);
+};
+
+/**
+ * Serializes presets for sharing.
+ * @param kind Limits the export to one tool; all presets are exported by default.
+ */
+export const exportPresets = (kind?: PresetKind): string => {
+    const presets = currentPresets
+        .filter(preset => !kind || preset.kind === kind)
+        .map(({ kind, name, prompt, tags }) => ({ kind, name, prompt, tags }));
+    return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, presets }, null, 2);
+};
+
+/**
+ * Adds the presets from an exported file as user presets. Presets whose tool and prompt
+ * match an existing one are skipped, so importing the same file twice changes nothing.
+ * @returns The number of presets added.
+ * @throws Error if the text is not a preset export.
+ */
+export const importPresets = (text: string): number => {
+    let parsed: { format?: unknown, version?: unknown, presets?: unknown };
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (parsed?.format !== EXPORT_FORMAT || !Array.isArray(parsed.presets)) {
+        throw new Error('The file is not a Pixshop preset export.');
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > EXPORT_VERSION) {
+        throw new Error('The presets were exported by a newer version of Pixshop.');
+    }
+
+    const existing = new Set(currentPresets.map(preset => `${preset.kind}\n${preset.prompt}`));
+    const added: Preset[] = [];
+    parsed.presets.forEach((entry: unknown) => {
+        const candidate = { ...(entry as object), id: '' };
+        if (!isPreset(candidate) || !candidate.name.trim() || !candidate.prompt.trim()) return;
+        const key = `${candidate.kind}\n${candidate.prompt.trim()}`;
+        if (existing.has(key)) return;
+        existing.add(key);
+        added.push({
+            id: createPresetId(),
+            kind: candidate.kind,
+            name: candidate.name.trim(),
+            prompt: candidate.prompt.trim(),
+            tags: normalizeTags(candidate.tags.filter((tag): tag is string => typeof tag === 'string')),
+        });
+    });
+    if (added.length > 0) persist([...currentPresets, ...added]);
+    return added.length;
+};
+
+/**
+ * Subscribes to preset changes.
+ * @param listener Called with all presets after every change.
+ * @returns A function that removes the subscription.
+ */
+export const subscribePresets = (listener: (presets: Preset[]) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
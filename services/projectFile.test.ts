@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportProject, importProject, PROJECT_VERSION } from './projectFile';
+import { createZip, readZip } from './zip';
+import { addHistoryNode, createHistoryTree, getPathToNode } from './historyTree';
+
+test('zip archives round-trip text and binary entries', async () => {
+    const binary = new Uint8Array(256).map((_, i) => i);
+    const archive = await createZip([
+        { name: 'manifest.json', data: '{"hello":"wörld"}' },
+        { name: 'images/a.png', data: new Blob([binary]) },
+    ]);
+    const entries = await readZip(archive);
+    assert.deepEqual([...entries.keys()], ['manifest.json', 'images/a.png']);
+    assert.equal(await entries.get('manifest.json')!.text(), '{"hello":"wörld"}');
+    assert.deepEqual(new Uint8Array(await entries.get('images/a.png')!.arrayBuffer()), binary);
+});
+
+test('reading something that is not a zip fails', async () => {
+    await assert.rejects(readZip(new Blob(['not a zip archive at all'])));
+});
+
+test('projects round-trip their history, metadata and editor state', async () => {
+    const exif = new Uint8Array([0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8]);
+    let history = createHistoryTree({
+        image: new File(['original'], 'photo.jpg', { type: 'image/jpeg' }),
+        type: 'original',
+        metadata: { exif, camera: 'Pixel 8' },
+        timestamp: 1,
+    });
+    history = addHistoryNode(history, {
+        image: new File(['graded'], 'filter.webp', { type: 'image/webp' }),
+        type: 'filter',
+        lut: { name: 'Teal & Orange', strength: 80 },
+        timestamp: 2,
+    });
+    const filterId = history.currentId!;
+    history = addHistoryNode(history, {
+        image: new File(['cropped'], 'crop.png', { type: 'image/png' }),
+        type: 'crop',
+        cropRect: { x: 1, y: 2, width: 30, height: 40 },
+        straighten: 2.5,
+        timestamp: 3,
+    });
+
+    const restored = await importProject(await exportProject({ history, editor: { activeTab: 'crop', cropAspect: 1.5, compareId: filterId } }));
+
+    const path = getPathToNode(restored.history, restored.history.currentId!);
+    assert.deepEqual(path.map(node => node.type), ['original', 'filter', 'crop']);
+    assert.equal(path[0].id, restored.history.rootId);
+    assert.deepEqual(path.map(node => node.image.name), ['photo.jpg', 'filter.webp', 'crop.png']);
+    assert.deepEqual(path.map(node => node.image.type), ['image/jpeg', 'image/webp', 'image/png']);
+    assert.equal(await path[1].image.text(), 'graded');
+    assert.deepEqual(path[0].metadata, { exif, camera: 'Pixel 8', takenAt: undefined });
+    assert.deepEqual(path[1].lut, { name: 'Teal & Orange', strength: 80 });
+    assert.deepEqual(path[2].cropRect, { x: 1, y: 2, width: 30, height: 40 });
+    assert.equal(path[2].straighten, 2.5);
+    assert.equal(restored.history.activeChild[path[0].id], path[1].id);
+
+    // Steps get fresh ids, and references to them follow
+    assert.ok(!(filterId in restored.history.nodes));
+    assert.deepEqual(restored.editor, { activeTab: 'crop', cropAspect: 1.5, compareId: path[1].id });
+});
+
+// Packs a hand-written manifest with one image, as an older or damaged project would look
+const projectWith = (manifest: unknown) => createZip([
+    { name: 'manifest.json', data: typeof manifest === 'string' ? manifest : JSON.stringify(manifest) },
+    { name: 'images/a.png', data: new Blob(['pixels']) },
+]);
+
+const node = { id: 'a', parentId: null, type: 'original', image: 'images/a.png', imageName: 'a.png', imageType: 'image/png', timestamp: 1 };
+
+test('version 1 projects are upgraded on import', async () => {
+    const project = await importProject(await projectWith({
+        format: 'pixshop-project', version: 1, savedAt: 1, rootId: 'a', currentId: 'a', activeChild: {}, nodes: [node],
+    }));
+    const root = project.history.nodes[project.history.rootId!];
+    assert.equal(root.type, 'original');
+    assert.equal(project.history.currentId, root.id);
+    // Version 1 had no editor state
+    assert.deepEqual(project.editor, { activeTab: 'retouch', compareId: null });
+});
+
+test('damaged, foreign and newer projects are rejected with a clear message', async () => {
+    const valid = { format: 'pixshop-project', version: PROJECT_VERSION, savedAt: 1, rootId: 'a', currentId: 'a', activeChild: {}, nodes: [node] };
+
+    await assert.rejects(importProject(await createZip([{ name: 'other.txt', data: 'x' }])), /manifest\.json is missing/);
+    await assert.rejects(importProject(await projectWith('{ not json')), /damaged/);
+    await assert.rejects(importProject(await projectWith({ ...valid, format: 'something-else' })), /not a Pixshop project/);
+    await assert.rejects(importProject(await projectWith({ ...valid, version: PROJECT_VERSION + 1 })), /newer version/);
+    await assert.rejects(importProject(await projectWith({ ...valid, nodes: 'a' })), /damaged/);
+    await assert.rejects(importProject(await projectWith({ ...valid, nodes: [{ ...node, type: 'teleport' }] })), /damaged/);
+    await assert.rejects(importProject(await projectWith({ ...valid, nodes: [{ ...node, image: 'images/missing.png' }] })), /missing the image/);
+});
@@ -0,0 +1,281 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The .pixshop project format: a zip archive with a JSON manifest describing the
+// history tree and editor state, plus one image file per history step.
+//
+// The manifest is versioned. When the format changes, bump PROJECT_VERSION and add
+// a migration from the previous version, so that older files keep loading.
+
+import { EditMask, HistoryNode, HistoryOperation, HistoryTree, ImageMetadata, ImageTransform, LocalAdjustments, Rect, BlendMode } from '../types';
+import { createNodeId, historyLabels } from './historyTree';
+import { extensionForMimeType } from './imageUtils';
+import { createZip, readZip } from './zip';
+
+export const PROJECT_EXTENSION = '.pixshop';
+export const PROJECT_VERSION = 2;
+
+const FORMAT = 'pixshop-project';
+const MANIFEST = 'manifest.json';
+
+// Editor state restored along with the history
+export interface ProjectEditorState {
+    activeTab: string;
+    // Aspect ratio selected in the crop panel, if any
+    cropAspect?: number;
+    // History step selected for comparison
+    compareId: string | null;
+}
+
+export interface PixshopProject {
+    history: HistoryTree;
+    editor: ProjectEditorState;
+}
+
+interface ManifestNode {
+    id: string;
+    parentId: string | null;
+    type: HistoryOperation;
+    // Path of the image inside the archive
+    image: string;
+    imageName: string;
+    imageType: string;
+    prompt?: string;
+    hotspot?: { x: number, y: number };
+    mask?: { image: string, bounds: Rect };
+    cropRect?: Rect;
+    straighten?: number;
+    transform?: ImageTransform;
+    adjustments?: LocalAdjustments;
+    lut?: { name: string, strength: number };
+    blend?: { opacity: number, mode: BlendMode };
+    provider?: string;
+    durationMs?: number;
+    // Path of the raw EXIF block inside the archive, plus its display fields
+    metadata?: { exif: string, camera?: string, takenAt?: string };
+    timestamp: number;
+}
+
+interface ProjectManifest {
+    format: typeof FORMAT;
+    version: number;
+    savedAt: number;
+    rootId: string | null;
+    currentId: string | null;
+    activeChild: Record<string, string>;
+    nodes: ManifestNode[];
+    editor: ProjectEditorState;
+}
+
+type RawManifest = Record<string, unknown>;
+
+// Upgrades a manifest from the keyed version to the next one
+const migrations: Record<number, (manifest: RawManifest) => RawManifest> = {
+    // Version 2 added the transform step and the optional straighten, adjustments, lut, blend and metadata fields
+    1: manifest => ({ ...manifest, version: 2 }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isManifestNode = (node: unknown): boolean =>
+    isRecord(node)
+    && typeof node.id === 'string'
+    && (node.parentId === null || typeof node.parentId === 'string')
+    && typeof node.type === 'string' && node.type in historyLabels
+    && typeof node.image === 'string';
+
+// Checks the parts of an upgraded manifest that the importer relies on
+const checkManifest = (manifest: RawManifest): ProjectManifest => {
+    const { nodes, activeChild, editor } = manifest;
+    if (!Array.isArray(nodes) || !nodes.every(isManifestNode)
+        || !isRecord(activeChild) || !Object.values(activeChild).every(id => typeof id === 'string')) {
+        throw new Error('This Pixshop project is damaged: its history could not be read.');
+    }
+    return {
+        ...manifest,
+        editor: isRecord(editor) ? editor : { activeTab: 'retouch', compareId: null },
+    } as unknown as ProjectManifest;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+/**
+ * Packs the history and editor state into a .pixshop archive.
+ * @param project The history tree and editor state.
+ * @returns A promise that resolves to the archive.
+ */
+export const exportProject = async (project: PixshopProject): Promise<Blob> => {
+    const { history, editor } = project;
+    const files: { name: string, data: Blob }[] = [];
+
+    const nodes = await Promise.all(Object.values(history.nodes).map(async (node: HistoryNode): Promise<ManifestNode> => {
+        const image = `images/${node.id}.${extensionForMimeType(node.image.type)}`;
+        files.push({ name: image, data: node.image });
+
+        let mask: ManifestNode['mask'];
+        if (node.mask) {
+            mask = { image: `masks/${node.id}.png`, bounds: node.mask.bounds };
+            files.push({ name: mask.image, data: await (await fetch(node.mask.dataUrl)).blob() });
+        }
+
+        let metadata: ManifestNode['metadata'];
+        if (node.metadata) {
+            const { exif, ...fields } = node.metadata;
+            metadata = { exif: `metadata/${node.id}.exif`, ...fields };
+            files.push({ name: metadata.exif, data: new Blob([exif]) });
+        }
+
+        return {
+            id: node.id,
+            parentId: node.parentId,
+            type: node.type,
+            image,
+            imageName: node.image.name,
+            imageType: node.image.type,
+            prompt: node.prompt,
+            hotspot: node.hotspot,
+            mask,
+            cropRect: node.cropRect,
+            straighten: node.straighten,
+            transform: node.transform,
+            adjustments: node.adjustments,
+            lut: node.lut,
+            blend: node.blend,
+            provider: node.provider,
+            durationMs: node.durationMs,
+            metadata,
+            timestamp: node.timestamp,
+        };
+    }));
+
+    const manifest: ProjectManifest = {
+        format: FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: Date.now(),
+        rootId: history.rootId,
+        currentId: history.currentId,
+        activeChild: history.activeChild,
+        nodes,
+        editor,
+    };
+
+    return await createZip([
+        { name: MANIFEST, data: JSON.stringify(manifest, null, 2) },
+        ...files,
+    ]);
+};
+
+/**
+ * Reads a .pixshop archive, upgrading older format versions.
+ * Steps get fresh ids so the same project can be opened more than once.
+ * @param file The archive.
+ * @returns A promise that resolves to the restored history and editor state.
+ */
+export const importProject = async (file: Blob): Promise<PixshopProject> => {
+    const entries = await readZip(file);
+    const manifestEntry = entries.get(MANIFEST);
+    if (!manifestEntry) {
+        throw new Error('This file is not a Pixshop project (manifest.json is missing).');
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await manifestEntry.text());
+    } catch {
+        throw new Error('This Pixshop project is damaged: manifest.json could not be read.');
+    }
+    if (!isRecord(parsed) || parsed.format !== FORMAT || typeof parsed.version !== 'number') {
+        throw new Error('This file is not a Pixshop project.');
+    }
+    let raw: RawManifest = parsed;
+    let version = parsed.version;
+    if (version > PROJECT_VERSION) {
+        throw new Error(`This project was saved by a newer version of Pixshop (format ${version}). Please update the app.`);
+    }
+    while (version < PROJECT_VERSION) {
+        const migrate = migrations[version];
+        if (!migrate) {
+            throw new Error(`Pixshop project format ${version} is no longer supported.`);
+        }
+        raw = migrate(raw);
+        version = raw.version as number;
+    }
+    const manifest = checkManifest(raw);
+    const { nodes: manifestNodes, editor } = manifest;
+
+    const ids = new Map<string, string>(manifestNodes.map(node => [node.id, createNodeId()]));
+    const newId = (id: string | null) => id ? ids.get(id) ?? null : null;
+
+    const nodes: Record<string, HistoryNode> = {};
+    for (const node of manifestNodes) {
+        const imageBlob = entries.get(node.image);
+        if (!imageBlob) {
+            throw new Error(`The project is missing the image for a history step (${node.image}).`);
+        }
+        const image = new File([imageBlob], node.imageName, { type: node.imageType });
+
+        let mask: EditMask | undefined;
+        const maskBlob = node.mask && entries.get(node.mask.image);
+        if (node.mask && maskBlob) {
+            mask = { dataUrl: await blobToDataUrl(new Blob([maskBlob], { type: 'image/png' })), bounds: node.mask.bounds };
+        }
+
+        let metadata: ImageMetadata | undefined;
+        const exifBlob = node.metadata && entries.get(node.metadata.exif);
+        if (node.metadata && exifBlob) {
+            metadata = {
+                exif: new Uint8Array(await exifBlob.arrayBuffer()),
+                camera: node.metadata.camera,
+                takenAt: node.metadata.takenAt,
+            };
+        }
+
+        const id = newId(node.id)!;
+        nodes[id] = {
+            id,
+            parentId: newId(node.parentId),
+            type: node.type,
+            image,
+            prompt: node.prompt,
+            hotspot: node.hotspot,
+            mask,
+            cropRect: node.cropRect,
+            straighten: node.straighten,
+            transform: node.transform,
+            adjustments: node.adjustments,
+            lut: node.lut,
+            blend: node.blend,
+            provider: node.provider,
+            durationMs: node.durationMs,
+            metadata,
+            timestamp: node.timestamp,
+        };
+    }
+
+    const activeChild: Record<string, string> = {};
+    Object.entries(manifest.activeChild).forEach(([parent, child]) => {
+        const parentId = newId(parent);
+        const childId = newId(child);
+        if (parentId && childId) activeChild[parentId] = childId;
+    });
+
+    return {
+        history: {
+            nodes,
+            rootId: newId(manifest.rootId),
+            currentId: newId(manifest.currentId) ?? newId(manifest.rootId),
+            activeChild,
+        },
+        editor: { ...editor, compareId: newId(editor.compareId) },
+    };
+};
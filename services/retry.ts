@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Retry with exponential backoff and jitter for retryable provider errors
+
+import { ImageGenerationError, RateLimitedError } from './errors';
+
+export interface RetryOptions {
+    // Total number of attempts, including the first one
+    maxAttempts: number;
+    // Delay before the first retry; doubles on every further retry
+    baseDelayMs: number;
+    // Upper bound for a single delay
+    maxDelayMs: number;
+    // Fraction of the delay (0-1) that is randomised to spread out retries
+    jitter: number;
+    // Retry rate limited attempts; off when the caller, e.g. the batch queue, backs off itself
+    retryRateLimits: boolean;
+}
+
+let defaultRetryOptions: RetryOptions = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 10000,
+    jitter: 0.3,
+    retryRateLimits: true
+};
+
+/**
+ * Overrides the default retry options used by the service layer.
+ * @param options The options to change; omitted fields keep their current value.
+ */
+export const configureRetry = (options: Partial<RetryOptions>): void => {
+    defaultRetryOptions = { ...defaultRetryOptions, ...options };
+};
+
+/**
+ * Returns the current default retry options.
+ */
+export const getRetryOptions = (): RetryOptions => ({ ...defaultRetryOptions });
+
+/**
+ * Waits for the given time, rejecting early if the signal is aborted.
+ * @param ms The time to wait in milliseconds.
+ * @param signal Optional AbortSignal to stop waiting.
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+/**
+ * Computes the backoff delay before the given retry.
+ * @param retry The retry number, starting at 1.
+ * @param options The retry options.
+ * @param error The error that triggered the retry.
+ */
+export const getBackoffDelay = (retry: number, options: RetryOptions, error?: unknown): number => {
+    // Respect the provider's Retry-After hint when it asks for a longer wait
+    const hinted = error instanceof RateLimitedError ? error.retryAfterMs ?? 0 : 0;
+    const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (retry - 1));
+    const jitter = exponential * options.jitter * (Math.random() * 2 - 1);
+    return Math.max(hinted, Math.round(exponential + jitter));
+};
+
+/**
+ * Runs an operation, retrying it with exponential backoff while it fails with a
+ * retryable ImageGenerationError.
+ * @param operation The operation to run.
+ * @param options Optional overrides for the default retry options.
+ * @param signal Optional AbortSignal; an abort stops any further attempts.
+ */
+export const withRetry = async <T>(
+    operation: () => Promise<T>,
+    options: Partial<RetryOptions> = {},
+    signal?: AbortSignal
+): Promise<T> => {
+    const resolved = { ...defaultRetryOptions, ...options };
+    let attempt = 1;
+
+    while (true) {
+        try {
+            return await operation();
+        } catch (error) {
+            const retryable = error instanceof ImageGenerationError && error.retryable
+                && (resolved.retryRateLimits || error.kind !== 'rate-limited');
+            if (!retryable || attempt >= resolved.maxAttempts || signal?.aborted) {
+                throw error;
+            }
+            const wait = getBackoffDelay(attempt, resolved, error);
+            console.warn(`Attempt ${attempt} failed, retrying in ${wait}ms:`, error);
+            await delay(wait, signal);
+            attempt++;
+        }
+    }
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Which providers the Pixshop server holds keys for, as reported by /api/config
+
+import { ApiKeyProvider } from './apiKeyStore';
+
+export interface ServerConfig {
+    providers: Record<ApiKeyProvider, boolean>;
+}
+
+let currentConfig: ServerConfig | null = null;
+let pending: Promise<ServerConfig | null> | null = null;
+const listeners = new Set<(config: ServerConfig | null) => void>();
+
+/**
+ * Fetches the server configuration once and caches it.
+ * Resolves to null when the server cannot be reached.
+ */
+export const loadServerConfig = (): Promise<ServerConfig | null> => {
+    if (!pending) {
+        pending = fetch('/api/config')
+            .then(response => response.ok ? response.json() as Promise<ServerConfig> : null)
+            .catch(error => {
+                console.warn('Could not load server configuration:', error);
+                return null;
+            })
+            .then(config => {
+                currentConfig = config;
+                listeners.forEach(listener => listener(config));
+                return config;
+            });
+    }
+    return pending;
+};
+
+/**
+ * Returns the cached server configuration, or null if it is not loaded yet.
+ */
+export const getServerConfig = (): ServerConfig | null => currentConfig;
+
+/**
+ * Returns true if the server holds a key for the provider.
+ */
+export const serverHasKey = (provider: ApiKeyProvider): boolean => !!currentConfig?.providers[provider];
+
+/**
+ * Subscribes to the server configuration once it has loaded.
+ * @returns A function that removes the subscription.
+ */
+export const subscribeServerConfig = (listener: (config: ServerConfig | null) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Editing sessions persisted in IndexedDB, so work survives reloads.
+// Session records hold the history tree and chat without images; every history
+// image is stored once in a separate store, keyed by its node id.
+
+import { ChatMessage, HistoryNode, HistoryTree } from '../types';
+
+const DB_NAME = 'pixshop';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const IMAGES = 'images';
+
+type StoredNode = Omit<HistoryNode, 'image'>;
+
+interface SessionRecord {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    nodes: Record<string, StoredNode>;
+    rootId: string | null;
+    currentId: string | null;
+    activeChild: Record<string, string>;
+    chatMessages: ChatMessage[];
+    // Total size of the session's images in bytes
+    bytes: number;
+}
+
+interface ImageRecord {
+    id: string;
+    sessionId: string;
+    image: File;
+}
+
+export interface SessionSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    stepCount: number;
+    bytes: number;
+    // The image the session was left on, for a preview
+    thumbnail: File | null;
+}
+
+export interface StoredSession {
+    id: string;
+    history: HistoryTree;
+    chatMessages: ChatMessage[];
+}
+
+export interface StorageUsage {
+    // Bytes used and available to this origin, when the browser reports them
+    usage?: number;
+    quota?: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                db.createObjectStore(SESSIONS, { keyPath: 'id' });
+                const images = db.createObjectStore(IMAGES, { keyPath: 'id' });
+                images.createIndex('sessionId', 'sessionId');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to try again if opening failed
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+/**
+ * Creates an id for a new session.
+ */
+export const createSessionId = (): string => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Node ids whose images are already stored, so autosave only writes new images
+const storedImageIds = new Set<string>();
+
+/**
+ * Saves a session, writing only images that are not stored yet.
+ * @param id The session id.
+ * @param history The history tree.
+ * @param chatMessages The chat transcript.
+ */
+export const saveSession = async (id: string, history: HistoryTree, chatMessages: ChatMessage[]): Promise<void> => {
+    const db = await openDatabase();
+    const existing = await requestToPromise<SessionRecord | undefined>(
+        db.transaction(SESSIONS).objectStore(SESSIONS).get(id)
+    );
+
+    const nodes: Record<string, StoredNode> = {};
+    let bytes = 0;
+    const newImages: ImageRecord[] = [];
+    Object.values(history.nodes).forEach(({ image, ...node }: HistoryNode) => {
+        nodes[node.id] = node;
+        bytes += image.size;
+        if (!storedImageIds.has(node.id)) {
+            newImages.push({ id: node.id, sessionId: id, image });
+        }
+    });
+
+    const root = history.rootId ? history.nodes[history.rootId] : null;
+    const record: SessionRecord = {
+        id,
+        name: existing?.name ?? root?.image.name ?? 'Chat session',
+        createdAt: existing?.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+        nodes,
+        rootId: history.rootId,
+        currentId: history.currentId,
+        activeChild: history.activeChild,
+        chatMessages,
+        bytes,
+    };
+
+    const transaction = db.transaction([SESSIONS, IMAGES], 'readwrite');
+    newImages.forEach(image => transaction.objectStore(IMAGES).put(image));
+    transaction.objectStore(SESSIONS).put(record);
+    await transactionDone(transaction);
+    newImages.forEach(image => storedImageIds.add(image.id));
+};
+
+/**
+ * Lists stored sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SESSIONS, IMAGES]);
+    const records = await requestToPromise<SessionRecord[]>(transaction.objectStore(SESSIONS).getAll());
+    const summaries = await Promise.all(records.map(async record => {
+        const thumbnail = record.currentId
+            ? await requestToPromise<ImageRecord | undefined>(transaction.objectStore(IMAGES).get(record.currentId))
+            : undefined;
+        return {
+            id: record.id,
+            name: record.name,
+            createdAt: record.createdAt,
+            updatedAt: record.updatedAt,
+            stepCount: Object.keys(record.nodes).length,
+            bytes: record.bytes,
+            thumbnail: thumbnail?.image ?? null,
+        };
+    }));
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Loads a session with all of its images.
+ * @param id The session id.
+ * @returns The session, or null if it no longer exists.
+ */
+export const loadSession = async (id: string): Promise<StoredSession | null> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SESSIONS, IMAGES]);
+    const record = await requestToPromise<SessionRecord | undefined>(transaction.objectStore(SESSIONS).get(id));
+    if (!record) return null;
+
+    const images = await requestToPromise<ImageRecord[]>(
+        transaction.objectStore(IMAGES).index('sessionId').getAll(id)
+    );
+    const imagesById = new Map(images.map(image => [image.id, image.image]));
+
+    const nodes: Record<string, HistoryNode> = {};
+    Object.values(record.nodes).forEach((node: StoredNode) => {
+        const image = imagesById.get(node.id);
+        if (image) {
+            nodes[node.id] = { ...node, image };
+            storedImageIds.add(node.id);
+        } else {
+            console.warn(`Session ${id} is missing the image for step ${node.id}`);
+        }
+    });
+
+    return {
+        id,
+        history: {
+            nodes,
+            rootId: record.rootId && nodes[record.rootId] ? record.rootId : null,
+            currentId: record.currentId && nodes[record.currentId] ? record.currentId : record.rootId,
+            activeChild: record.activeChild,
+        },
+        chatMessages: record.chatMessages,
+    };
+};
+
+/**
+ * Deletes a session and its images.
+ * @param id The session id.
+ */
+export const deleteSession = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SESSIONS, IMAGES], 'readwrite');
+    transaction.objectStore(SESSIONS).delete(id);
+    const imageKeys = await requestToPromise<IDBValidKey[]>(
+        transaction.objectStore(IMAGES).index('sessionId').getAllKeys(id)
+    );
+    imageKeys.forEach(key => {
+        transaction.objectStore(IMAGES).delete(key);
+        storedImageIds.delete(String(key));
+    });
+    await transactionDone(transaction);
+};
+
+/**
+ * Reports how much storage this origin uses, including sessions.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+    if (!navigator.storage?.estimate) return {};
+    try {
+        const { usage, quota } = await navigator.storage.estimate();
+        return { usage, quota };
+    } catch (error) {
+        console.warn('Could not estimate storage usage:', error);
+        return {};
+    }
+};
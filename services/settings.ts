@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// User settings persisted in localStorage
+
+export type ProviderMode = 'auto' | 'mock';
+
+// Failure the mock provider should simulate on every request
+export type MockFailure = 'none' | 'refusal' | 'rate-limited' | 'timeout' | 'network' | 'invalid-output' | 'auth-missing';
+
+export interface MockSettings {
+    // Artificial delay before the mock provider responds
+    latencyMs: number;
+    failure: MockFailure;
+}
+
+export interface Settings {
+    // 'auto' uses the registered network providers, 'mock' the offline mock provider only
+    providerMode: ProviderMode;
+    mock: MockSettings;
+    // Request and keep PNG output so chained edits don't compound JPEG artifacts
+    losslessOutput: boolean;
+}
+
+const STORAGE_KEY = 'pixshop.settings';
+
+// PIXSHOP_PROVIDER=mock in .env.local selects the mock provider by default
+const defaultSettings: Settings = {
+    providerMode: process.env.PIXSHOP_PROVIDER === 'mock' ? 'mock' : 'auto',
+    mock: {
+        latencyMs: 800,
+        failure: 'none'
+    },
+    losslessOutput: false
+};
+
+const loadSettings = (): Settings => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return defaultSettings;
+        const stored = JSON.parse(raw) as Partial<Settings>;
+        return {
+            ...defaultSettings,
+            ...stored,
+            mock: { ...defaultSettings.mock, ...stored.mock }
+        };
+    } catch (error) {
+        console.warn('Could not load settings, using defaults:', error);
+        return defaultSettings;
+    }
+};
+
+let currentSettings: Settings = loadSettings();
+const listeners = new Set<(settings: Settings) => void>();
+
+/**
+ * Returns the current settings.
+ */
+export const getSettings = (): Settings => currentSettings;
+
+/**
+ * Updates and persists settings, then notifies subscribers.
+ * @param patch The settings to change; nested `mock` fields are merged.
+ * @returns The updated settings.
+ */
+export const updateSettings = (patch: Partial<Settings>): Settings => {
+    currentSettings = {
+        ...currentSettings,
+        ...patch,
+        mock: { ...currentSettings.mock, ...patch.mock }
+    };
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(currentSettings));
+    } catch (error) {
+        console.warn('Could not save settings:', error);
+    }
+    listeners.forEach(listener => listener(currentSettings));
+    return currentSettings;
+};
+
+/**
+ * Subscribes to settings changes.
+ * @param listener Called with the new settings after every update.
+ * @returns A function that removes the subscription.
+ */
+export const subscribeSettings = (listener: (settings: Settings) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getCenteredCrop, getStraightenScale, getStraightenedSize } from './transform';
+
+test('an unrotated image keeps its size', () => {
+    assert.equal(getStraightenScale(4000, 3000, 0), 1);
+    assert.deepEqual(getStraightenedSize(4000, 3000, 0), { width: 4000, height: 3000 });
+});
+
+test('straightening keeps the aspect ratio and ignores the direction', () => {
+    const size = getStraightenedSize(4000, 3000, 5);
+    assert.ok(size.width < 4000 && size.height < 3000);
+    assert.ok(Math.abs(size.width / size.height - 4 / 3) < 0.001);
+    assert.deepEqual(getStraightenedSize(4000, 3000, -5), size);
+});
+
+test('the straightened area fits inside the rotated image without empty corners', () => {
+    for (const degrees of [1, 5, 15, 45]) {
+        const { width, height } = getStraightenedSize(4000, 3000, degrees);
+        const radians = degrees * Math.PI / 180;
+        // The frame, turned back by the angle, must lie within the original image
+        assert.ok(width * Math.cos(radians) + height * Math.sin(radians) <= 4000 + 1, `${degrees} degrees`);
+        assert.ok(width * Math.sin(radians) + height * Math.cos(radians) <= 3000 + 1, `${degrees} degrees`);
+    }
+});
+
+test('tiny images never straighten to nothing', () => {
+    assert.deepEqual(getStraightenedSize(1, 1, 45), { width: 1, height: 1 });
+});
+
+test('centred crops fill the limiting side and stay centred', () => {
+    assert.deepEqual(getCenteredCrop(1000, 500, 1), { x: 275, y: 25, width: 450, height: 450 });
+    assert.deepEqual(getCenteredCrop(1000, 1000, 16 / 9), { x: 50, y: 247, width: 900, height: 506 });
+    assert.deepEqual(getCenteredCrop(600, 400, 3 / 2, 1), { x: 0, y: 0, width: 600, height: 400 });
+});
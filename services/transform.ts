@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Local geometry operations: crop, straighten, rotate and flip.
+// All of them work on the image's own pixels, so the result does not depend on
+// how large the image happens to be displayed.
+
+import { ImageTransform, Rect } from '../types';
+import { loadImage, createCanvas } from './imageUtils';
+
+const canvasToFile = async (canvas: HTMLCanvasElement, fileName: string): Promise<File> => {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+        throw new Error('Could not encode the transformed image');
+    }
+    return new File([blob], fileName, { type: 'image/png' });
+};
+
+const withImage = async <T>(file: File, draw: (image: HTMLImageElement) => Promise<T>): Promise<T> => {
+    const url = URL.createObjectURL(file);
+    try {
+        return await draw(await loadImage(url));
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+/**
+ * Computes how much a straightened image must be enlarged so that, rotated by the
+ * angle, it still covers its original frame without empty corners.
+ * @param width The image width.
+ * @param height The image height.
+ * @param degrees The straighten angle in degrees.
+ */
+export const getStraightenScale = (width: number, height: number, degrees: number): number => {
+    const radians = Math.abs(degrees) * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    return Math.max(cos + (height / width) * sin, cos + (width / height) * sin);
+};
+
+/**
+ * Returns the size of an image after straightening, which keeps the aspect ratio
+ * and crops away the corners the rotation leaves empty.
+ * @param width The image width.
+ * @param height The image height.
+ * @param degrees The straighten angle in degrees.
+ */
+export const getStraightenedSize = (width: number, height: number, degrees: number): { width: number, height: number } => {
+    const scale = getStraightenScale(width, height, degrees);
+    return { width: Math.max(1, Math.round(width / scale)), height: Math.max(1, Math.round(height / scale)) };
+};
+
+/**
+ * Returns the largest centred rectangle with the given aspect ratio that fits in
+ * a fraction of the image.
+ * @param width The image width.
+ * @param height The image height.
+ * @param aspect Width divided by height.
+ * @param fill The fraction of the image the rectangle may cover on its longer side.
+ */
+export const getCenteredCrop = (width: number, height: number, aspect: number, fill = 0.9): Rect => {
+    let cropWidth = width * fill;
+    let cropHeight = cropWidth / aspect;
+    if (cropHeight > height * fill) {
+        cropHeight = height * fill;
+        cropWidth = cropHeight * aspect;
+    }
+    return {
+        x: Math.round((width - cropWidth) / 2),
+        y: Math.round((height - cropHeight) / 2),
+        width: Math.round(cropWidth),
+        height: Math.round(cropHeight),
+    };
+};
+
+/**
+ * Straightens and crops an image at its native resolution.
+ * @param file The image to crop.
+ * @param crop The area to keep, in pixels of the straightened image.
+ * @param straighten The straighten angle in degrees, applied before cropping.
+ * @returns A promise that resolves to the cropped PNG.
+ */
+export const renderCrop = (file: File, crop: Rect, straighten = 0): Promise<File> => withImage(file, async image => {
+    const { canvas, ctx } = createCanvas(crop.width, crop.height);
+    const straightened = getStraightenedSize(image.naturalWidth, image.naturalHeight, straighten);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(straightened.width / 2 - crop.x, straightened.height / 2 - crop.y);
+    ctx.rotate(straighten * Math.PI / 180);
+    ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+    return await canvasToFile(canvas, `cropped-${Date.now()}.png`);
+});
+
+/**
+ * Rotates an image by 90° or mirrors it. These are lossless pixel moves.
+ * @param file The image to transform.
+ * @param transform The rotation or flip to apply.
+ * @returns A promise that resolves to the transformed PNG.
+ */
+export const transformImage = (file: File, transform: ImageTransform): Promise<File> => withImage(file, async image => {
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    const rotates = transform === 'rotate-left' || transform === 'rotate-right';
+    const { canvas, ctx } = createCanvas(rotates ? height : width, rotates ? width : height);
+    switch (transform) {
+        case 'rotate-right': ctx.transform(0, 1, -1, 0, height, 0); break;
+        case 'rotate-left': ctx.transform(0, -1, 1, 0, 0, width); break;
+        case 'flip-horizontal': ctx.transform(-1, 0, 0, 1, width, 0); break;
+        case 'flip-vertical': ctx.transform(1, 0, 0, -1, 0, height); break;
+    }
+    ctx.drawImage(image, 0, 0);
+    return await canvasToFile(canvas, `${transform}-${Date.now()}.png`);
+});
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ViewTransform, clampView, fitView, getFitSize, toImagePoint, zoomAt } from './viewport';
+
+// Where a content point ends up on screen under a view
+const project = (view: ViewTransform, x: number, y: number) => ({ x: view.x + x * view.scale, y: view.y + y * view.scale });
+
+// Stands in for an element whose bounding rect already includes the zoom transform
+const elementAt = (left: number, top: number, width: number, height: number) =>
+    ({ getBoundingClientRect: () => ({ left, top, width, height }) }) as Element;
+
+test('zooming keeps the point under the cursor in place', () => {
+    const zoomed = zoomAt(fitView, 4, 300, 200);
+    assert.deepEqual(project(zoomed, 300, 200), { x: 300, y: 200 });
+
+    const view = { scale: 2, x: -100, y: -50 };
+    const before = { x: (250 - view.x) / view.scale, y: (120 - view.y) / view.scale };
+    assert.deepEqual(project(zoomAt(view, 3, 250, 120), before.x, before.y), { x: 250, y: 120 });
+});
+
+test('content larger than the viewport cannot be panned out of sight', () => {
+    const view = clampView({ scale: 2, x: 500, y: -5000 }, 800, 600, 800, 600);
+    assert.deepEqual(view, { scale: 2, x: 0, y: -600 });
+});
+
+test('content smaller than the viewport stays centred', () => {
+    assert.deepEqual(clampView({ scale: 0.5, x: 123, y: -45 }, 800, 600, 800, 600), { scale: 0.5, x: 200, y: 150 });
+});
+
+test('fits an image into a box without changing its shape', () => {
+    assert.deepEqual(getFitSize(4000, 3000, 800, 800), { width: 800, height: 600 });
+    assert.deepEqual(getFitSize(1000, 2000, 800, 800), { width: 400, height: 800 });
+});
+
+test('maps pointer positions to image pixels through letterboxing and zoom', () => {
+    // A 2000x1000 image shown in a 400x400 box: 0.2 screen pixels per image pixel, 100px bars above and below
+    const fitted = elementAt(50, 20, 400, 400);
+    assert.deepEqual(toImagePoint(fitted, 2000, 1000, 50, 120), { x: 0, y: 0, scale: 0.2 });
+    assert.deepEqual(toImagePoint(fitted, 2000, 1000, 250, 220), { x: 1000, y: 500, scale: 0.2 });
+
+    // The same box zoomed 3x and panned; the hotspot under the pointer stays the same pixel
+    const zoomed = elementAt(-350, -280, 1200, 1200);
+    assert.deepEqual(toImagePoint(zoomed, 2000, 1000, 250, 320), { x: 1000, y: 500, scale: 0.6 });
+});
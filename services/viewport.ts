@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Zoom and pan maths shared by the editing canvas and the side-by-side compare view.
+// A view is a CSS transform applied with a top-left origin: translate(x, y) scale(scale).
+
+export interface ViewTransform {
+    scale: number;
+    x: number;
+    y: number;
+}
+
+export const fitView: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+/**
+ * Zooms to a new scale while keeping one point fixed on screen.
+ * @param view The current view.
+ * @param scale The new scale.
+ * @param px The fixed point, relative to the viewport's top-left corner.
+ * @param py The fixed point, relative to the viewport's top-left corner.
+ */
+export const zoomAt = (view: ViewTransform, scale: number, px: number, py: number): ViewTransform => {
+    const ratio = scale / view.scale;
+    return { scale, x: px - (px - view.x) * ratio, y: py - (py - view.y) * ratio };
+};
+
+/**
+ * Keeps the content covering the viewport when it is larger, and centred when it is smaller,
+ * so it can never be panned out of sight.
+ * @param width The content's unscaled width.
+ * @param height The content's unscaled height.
+ */
+export const clampView = (
+    view: ViewTransform,
+    width: number,
+    height: number,
+    viewportWidth: number,
+    viewportHeight: number,
+): ViewTransform => {
+    const clampAxis = (offset: number, size: number, viewportSize: number) => {
+        const scaled = size * view.scale;
+        if (scaled <= viewportSize) return (viewportSize - scaled) / 2;
+        return Math.min(0, Math.max(viewportSize - scaled, offset));
+    };
+    return {
+        scale: view.scale,
+        x: clampAxis(view.x, width, viewportWidth),
+        y: clampAxis(view.y, height, viewportHeight),
+    };
+};
+
+/**
+ * Returns the largest size with the image's aspect ratio that fits in the given box.
+ */
+export const getFitSize = (width: number, height: number, maxWidth: number, maxHeight: number) => {
+    const scale = Math.min(maxWidth / width, maxHeight / height);
+    return { width: width * scale, height: height * scale };
+};
+
+/**
+ * Maps a pointer position to image pixels for an element drawn with object-contain,
+ * whose picture can be letterboxed inside it. The bounding rect includes any CSS
+ * transform on the element or its ancestors, so this holds at every zoom level.
+ * @param element The image or canvas element.
+ * @param width The picture's natural width.
+ * @param height The picture's natural height.
+ * @returns The point in image pixels, and the number of screen pixels per image pixel.
+ */
+export const toImagePoint = (element: Element, width: number, height: number, clientX: number, clientY: number) => {
+    const rect = element.getBoundingClientRect();
+    const scale = Math.min(rect.width / width, rect.height / height);
+    const offsetX = (rect.width - width * scale) / 2;
+    const offsetY = (rect.height - height * scale) / 2;
+    return {
+        x: (clientX - rect.left - offsetX) / scale,
+        y: (clientY - rect.top - offsetY) / scale,
+        scale,
+    };
+};
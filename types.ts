@@ -10,6 +10,10 @@ export interface ChatMessage {
   content: string;
   images?: File[];
   resultImage?: string;
+  // For AI results: the prompt and provider that produced the image, and how long it took
+  prompt?: string;
+  provider?: string;
+  durationMs?: number;
   timestamp: Date;
   isGenerating?: boolean;
 }
@@ -19,3 +23,128 @@ export interface ChatState {
   isGenerating: boolean;
   referenceImages: File[];
 }
+
+
+// Error shown in place of the editor, with an optional way to retry the failed action
+export interface EditorError {
+  message: string;
+  cause?: unknown;
+  retry?: () => void;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Brush used to paint a retouch mask on the EditorCanvas
+export interface BrushSettings {
+  tool: 'brush' | 'eraser';
+  // Diameter in screen pixels
+  size: number;
+  // Blur radius applied to the mask edge, in image pixels
+  feather: number;
+}
+
+// A painted retouch mask at the image's natural size
+export interface EditMask {
+  // PNG data URL, white where the edit applies and black elsewhere
+  dataUrl: string;
+  // Bounding box of the painted area, in image pixels
+  bounds: Rect;
+}
+
+// Where a retouch edit applies: a single point, optionally refined by a painted mask
+export interface EditRegion {
+  hotspot: { x: number, y: number };
+  mask?: EditMask;
+}
+
+// Metadata sidecar of an uploaded photo, written back on export if the user chooses
+export interface ImageMetadata {
+  // Raw EXIF block, with the orientation reset because the stored image is upright
+  exif: Uint8Array;
+  camera?: string;
+  // Capture date as recorded by the camera, e.g. "2024:05:01 14:32:10"
+  takenAt?: string;
+}
+
+// A tone curve control point; both coordinates run from 0 to 255
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+// Local (non-AI) adjustments. Sliders run from -100 to 100 with 0 as neutral,
+// except exposure, which is in stops, and sharpen, which runs from 0 to 100.
+export interface LocalAdjustments {
+  exposure: number;
+  contrast: number;
+  highlights: number;
+  shadows: number;
+  temperature: number;
+  tint: number;
+  saturation: number;
+  vibrance: number;
+  sharpen: number;
+  // Sorted by x, always including the end points
+  curve: CurvePoint[];
+}
+
+// How an AI result is combined with the image it was generated from
+export type BlendMode = 'normal' | 'luminosity' | 'color';
+
+export type HistoryOperation = 'original' | 'retouch' | 'filter' | 'adjust' | 'crop' | 'transform' | 'chat-import';
+
+// An AI operation with everything needed to run it again
+export interface AiStep {
+  type: 'retouch' | 'filter' | 'adjust';
+  prompt: string;
+  region?: EditRegion;
+}
+
+// Lossless 90° rotations and mirrors
+export type ImageTransform = 'rotate-left' | 'rotate-right' | 'flip-horizontal' | 'flip-vertical';
+
+// An image in the edit history along with how it was produced
+export interface HistoryEntry {
+  image: File;
+  type: HistoryOperation;
+  prompt?: string;
+  // Retouch location, in pixels of the parent image
+  hotspot?: { x: number, y: number };
+  mask?: EditMask;
+  // Crop area, in pixels of the parent image after straightening
+  cropRect?: Rect;
+  // Straighten angle in degrees, applied before the crop
+  straighten?: number;
+  transform?: ImageTransform;
+  // Slider values of a local adjustment
+  adjustments?: LocalAdjustments;
+  // Colour grade of a LUT filter, with its strength in percent
+  lut?: { name: string, strength: number };
+  // Blend of an AI result with its parent image, with the opacity in percent
+  blend?: { opacity: number, mode: BlendMode };
+  // Name of the AI provider that generated the image
+  provider?: string;
+  durationMs?: number;
+  // Camera metadata of an uploaded original
+  metadata?: ImageMetadata;
+  timestamp: number;
+}
+
+// A history entry placed in the tree; undoing and then editing again starts a new branch
+export interface HistoryNode extends HistoryEntry {
+  id: string;
+  parentId: string | null;
+}
+
+export interface HistoryTree {
+  nodes: Record<string, HistoryNode>;
+  rootId: string | null;
+  currentId: string | null;
+  // The child each node's redo leads to: the one most recently created or visited
+  activeChild: Record<string, string>;
+}
@@ -1,28 +1,32 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { createRequestHandler, optionsFromEnv } from './server/index.js';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // API keys are entered at runtime in the settings dialog and never inlined into the bundle
       define: {
-        'process.env.API_KEY': JSON.stringify(env.OPENROUTER_API_KEY || env.GEMINI_API_KEY),
-        'process.env.OPENROUTER_API_KEY': JSON.stringify(env.OPENROUTER_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.REPLICATE_API_TOKEN': JSON.stringify(env.REPLICATE_API_TOKEN)
+        'process.env.PIXSHOP_PROVIDER': JSON.stringify(env.PIXSHOP_PROVIDER)
       },
-      server: {
-        proxy: {
-          '/api/replicate': {
-            target: 'https://api.replicate.com',
-            changeOrigin: true,
-            rewrite: (path) => path.replace(/^\/api\/replicate/, ''),
-            headers: {
-              'Authorization': `Bearer ${env.REPLICATE_API_TOKEN}`,
-              'Content-Type': 'application/json'
-            }
+      plugins: [
+        {
+          // Mounts the production proxy in the dev server, so /api behaves the same in both
+          name: 'pixshop-api',
+          configureServer(server) {
+            const handler = createRequestHandler(optionsFromEnv(env));
+            server.middlewares.use((req, res, next) => {
+              handler(req, res, next).catch(next);
+            });
+          },
+          configurePreviewServer(server) {
+            const handler = createRequestHandler(optionsFromEnv(env));
+            server.middlewares.use((req, res, next) => {
+              handler(req, res, next).catch(next);
+            });
           }
         }
-      },
+      ],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),